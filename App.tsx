@@ -1,57 +1,208 @@
 
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { LineChart, Line, YAxis, ResponsiveContainer, XAxis, Tooltip, ReferenceLine } from 'recharts';
-import { ShieldAlert, Activity, Mic, Power, Cpu, ScanLine, ShieldCheck, AlertTriangle, BarChart3, Clock, MessageSquare, TrendingUp, ChevronUp, X } from 'lucide-react';
-import { geminiLive } from './services/geminiLiveService';
-import { LogEntry, SessionStatus, BiometricData } from './types';
+import { ShieldAlert, Activity, Mic, Power, Cpu, ScanLine, ShieldCheck, AlertTriangle, BarChart3, Clock, MessageSquare, TrendingUp, ChevronUp, X, Archive, ListChecks, SkipForward, Settings, Video, ClipboardCopy, Volume2, VolumeX, FileText } from 'lucide-react';
+import { ANALYSIS_PROVIDERS, DEFAULT_PROVIDER } from './services/providers';
+import { AnalysisProvider, capturesAudio, capturesVideo, ProviderId } from './services/analysisProvider';
+import { createSessionArchive, downloadArchive, ExportFormat } from './services/sessionArchive';
+import { autosaveSession, sessionTitle } from './services/sessionStore';
+import { parseInterviewPlan, summarizeQuestions } from './services/interviewPlan';
+import { CALIBRATION_QUESTIONS, CalibrationSample, SPEECH_VOLUME_FLOOR, computeBaseline, normalizeRate } from './services/calibration';
+import { createTranslator, I18nContext, MessageKey, Translate } from './services/i18n';
+import { AppSettings, loadSettings, saveSettings } from './services/settings';
+import { bandFor, bandIndex, bandLabel, classifyRate, normalizeBands } from './services/scoring';
+import { DEFAULT_FACE_REGION, faceSampleRegion, FrameRegion, HeartRateReading, RppgEstimator } from './services/rppg';
+import { coverRegionStyle, FaceTracker } from './services/faceTracker';
+import { VideoStreamStats } from './services/videoStreamer';
+import { isAudioFile, MediaFileSource } from './services/mediaFile';
+import { openMediaStream, switchDevice } from './services/mediaDevices';
+import { buildDiagnosticBundle, DiagnosticLog, ERROR_TITLES, SessionError, toSessionError } from './services/sessionErrors';
+import { parseDeceptionRate, stripDeceptionTag } from './services/verdictParser';
+import { timelineFromLogs, TurnContext, TurnTimeline } from './services/turns';
+import { findParticipant, isMultiSpeaker, isScored, participantLabel, scoredParticipants, summarizeParticipants } from './services/participants';
+import { AnalysisModality, TimelineItem, Turn, SessionStatus, BiometricData, DeceptionSample, Verdict, VerdictRecord, SessionArchive, SubjectBaseline, InterviewPlan, QuestionSegment, VocalFeatures } from './types';
 import { Panel, Button } from './components/HolographicComponents';
+import { ExportMenu } from './components/ExportMenu';
+import { SessionLibrary } from './components/SessionLibrary';
+import { SettingsPanel } from './components/SettingsPanel';
+import { DeviceSetupPanel } from './components/DeviceSetupPanel';
+import { VocalFeaturesGrid } from './components/VocalFeaturesView';
+import { TimelineView } from './components/TimelineView';
+import { TextComposer } from './components/TextComposer';
+import { BatchAnalysisPanel } from './components/BatchAnalysisPanel';
+import { AnalyticsPanel } from './components/AnalyticsPanel';
 
 const MAX_LOGS = 100;
+const CHART_WINDOW = 50;
+const AUTOSAVE_DELAY = 1500;
 const RECONNECT_DELAY = 2000;
 const MAX_RECONNECT_ATTEMPTS = 3;
+const MODALITIES: { id: AnalysisModality; label: MessageKey }[] = [
+  { id: 'audio-video', label: 'modalityAudioVideo' },
+  { id: 'audio', label: 'modalityAudio' },
+  { id: 'video', label: 'modalityVideo' },
+  { id: 'text', label: 'modalityText' },
+];
+const IDLE_BIOMETRICS: BiometricData = { heartRate: 75, stressLevel: 15, pupilDilation: 3.2, heartRateMeasured: false, signalQuality: 0 };
+
+// 中文判定框可逐字加空格，英文保持原样
+const verdictFrame = (text: string, locale: string, spaced = true) => {
+  if (locale !== 'zh') return spaced ? `[ ${text} ]` : `[${text}]`;
+  return spaced ? `【 ${text.split('').join(' ')} 】` : `【${text}】`;
+};
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [biometrics, setBiometrics] = useState<BiometricData>({ heartRate: 75, stressLevel: 15, pupilDilation: 3.2 });
+  const [timeline, setTimeline] = useState<TimelineItem[]>([]);
+  const [biometrics, setBiometrics] = useState<BiometricData>(IDLE_BIOMETRICS);
   const [lieProbability, setLieProbability] = useState<number>(0);
-  const [history, setHistory] = useState<{time: number, value: number}[]>([]);
-  const [lastAnalysis, setLastAnalysis] = useState<string>('系统待机...');
+  const [history, setHistory] = useState<DeceptionSample[]>([]);
+  const [verdicts, setVerdicts] = useState<VerdictRecord[]>([]);
+  const [sessionMeta, setSessionMeta] = useState<{ id: string; startedAt: number; endedAt: number | null } | null>(null);
+  // null 表示待机，文案随界面语言切换
+  const [lastAnalysis, setLastAnalysis] = useState<string | null>(null);
+  const [lastVerdict, setLastVerdict] = useState<Verdict | null>(null);
+  const [lastVocal, setLastVocal] = useState<VocalFeatures | null>(null);
+  const [faceRegion, setFaceRegion] = useState<FrameRegion | null>(null);
+  const [videoStats, setVideoStats] = useState<VideoStreamStats | null>(null);
   const [inputVolume, setInputVolume] = useState<number>(0);
   const [showPrivacyNotice, setShowPrivacyNotice] = useState(false);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const [sessionStartTime, setSessionStartTime] = useState<number | null>(null);
   const [mobileLogsOpen, setMobileLogsOpen] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [analyticsOpen, setAnalyticsOpen] = useState(false);
+  const [replay, setReplay] = useState<SessionArchive | null>(null);
+  const [calibrationEnabled, setCalibrationEnabled] = useState(true);
+  const [modality, setModality] = useState<AnalysisModality>('audio-video');
+  // 选择录制文件时分析该文件而非摄像头；mediaFileName 记录当前（或上一次）会话分析的文件
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  const [mediaFileName, setMediaFileName] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER);
+  const [calibration, setCalibrationState] = useState<{ index: number; samples: CalibrationSample[] } | null>(null);
+  const [baseline, setBaselineState] = useState<SubjectBaseline | null>(null);
+  const [plan, setPlan] = useState<InterviewPlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [segments, setSegments] = useState<QuestionSegment[]>([]);
+  const [currentQuestionId, setCurrentQuestionIdState] = useState<string | null>(null);
+  const [settings, setSettingsState] = useState<AppSettings>(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [devicesOpen, setDevicesOpen] = useState(false);
+  // 会话失败的分类原因，显示在错误画面上
+  const [sessionError, setSessionError] = useState<SessionError | null>(null);
+  const [diagnosticsCopied, setDiagnosticsCopied] = useState(false);
+  // 多人会话中操作员标记的当前发言人，以及当前欺骗率属于谁
+  const [activeSpeakerId, setActiveSpeakerIdState] = useState<string | null>(null);
+  const [rateSpeakerId, setRateSpeakerId] = useState<string | null>(null);
+  const [pendingStatements, setPendingStatements] = useState(0);
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const videoBoxRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // 当前会话使用的分析后端，仅在启动会话时切换
+  const providerRef = useRef<AnalysisProvider>(ANALYSIS_PROVIDERS[DEFAULT_PROVIDER]);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const reconnectTimerRef = useRef<number | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  // 最近的连接事件，用于生成可复制的诊断信息
+  const diagnosticsRef = useRef(new DiagnosticLog());
+  // 会话已成功建立后才允许自动重连（首次连接失败直接报错）
+  const sessionLiveRef = useRef(false);
+  // 转写按轮次归并：受审者发言与模型对其的判定在同一轮中，服务回调直接读写最新状态
+  const timelineRef = useRef(new TurnTimeline(setTimeline));
+  // 校准进度与基线需要在服务回调中读取，用 ref 镜像 state
+  const calibrationRef = useRef<{ index: number; samples: CalibrationSample[]; countedLogIds: Set<string> } | null>(null);
+  const baselineRef = useRef<SubjectBaseline | null>(null);
+  // 当前问题 id，新日志与判定据此归入对应问题段
+  const currentQuestionIdRef = useRef<string | null>(null);
+  const planInputRef = useRef<HTMLInputElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  // 摄像头 rPPG 心率估计，信号质量不足时退回模拟值
+  const rppgRef = useRef<RppgEstimator | null>(null);
+  const heartRateRef = useRef<HeartRateReading | null>(null);
+  // 本地人脸追踪：驱动追踪框、rPPG 采样区域以及可选的面部裁剪画面
+  const faceTrackerRef = useRef<FaceTracker | null>(null);
+  // 录制文件播放器；会话结束后保留文件，点击日志仍可跳转
+  const mediaFileRef = useRef(new MediaFileSource());
+  // 声学特征可能先于或晚于对应的转写到达，暂存后挂到下一轮受审者发言上
+  const pendingVocalRef = useRef<VocalFeatures | null>(null);
+  const activeSpeakerIdRef = useRef<string | null>(null);
+  // 每位受审者最近一次的欺骗率，按秒写入趋势数据，画出各自的曲线
+  const speakerRatesRef = useRef<Record<string, number>>({});
+  // 文字对话的待发送陈述：上一条回复结束后才发送下一条，判定与陈述一一对应
+  const textQueueRef = useRef<string[]>([]);
+  const sendingTextRef = useRef(false);
+
+  const t = useMemo(() => createTranslator(settings.uiLocale), [settings.uiLocale]);
+  // 服务回调在 useCallback([]) 中创建，通过 ref 读取最新的设置与翻译
+  const settingsRef = useRef(settings);
+  const tRef = useRef<Translate>(t);
+  settingsRef.current = settings;
+  tRef.current = t;
+
+  // 评分区间决定判定文案、主题色与图表参考线；最高区间视为谎言，最低区间视为诚实
+  const bands = settings.prompt.bands;
+  const currentBandIndex = bandIndex(lieProbability, bands);
+  const currentBand = bands[currentBandIndex];
+  const isDanger = bands.length > 1 && currentBandIndex === bands.length - 1;
+  const isSuspicious = currentBandIndex > 0 && !isDanger;
 
-  const isDanger = lieProbability > 75;
-  const isSuspicious = lieProbability >= 50 && lieProbability <= 75;
-  const isTruth = lieProbability < 50 && status === SessionStatus.ACTIVE && lastAnalysis !== '系统待机...';
+  // 所选模态决定采集哪些流、显示哪些面板；音频文件只能纯音频分析
+  // 校准依赖受审者现场回答对照问题，纯视频模式和录制文件都不可用
+  const sessionModality: AnalysisModality = mediaFile && isAudioFile(mediaFile) ? 'audio' : modality;
+  const hasAudio = capturesAudio(sessionModality);
+  const hasVideo = capturesVideo(sessionModality);
+  // 文字对话不采集任何媒体，由输入框逐条发送陈述
+  const isTextChat = sessionModality === 'text';
+  const canCalibrate = hasAudio && !mediaFile;
+  const calibrate = calibrationEnabled && canCalibrate;
+  const isLive = status === SessionStatus.ACTIVE || status === SessionStatus.CALIBRATING || status === SessionStatus.RECONNECTING;
+  const isTruth = currentBandIndex === 0 && status === SessionStatus.ACTIVE && lastAnalysis !== null;
+  const participants = settings.participants;
+  const multiSpeaker = isMultiSpeaker(participants);
+  const rateSpeaker = multiSpeaker ? findParticipant(participants, rateSpeakerId ?? undefined) : undefined;
 
   const sessionStats = useMemo(() => {
-    const userMessages = logs.filter(l => l.type === 'neutral').length;
-    const aiMessages = logs.filter(l => l.type !== 'neutral').length;
+    const turns = timeline.flatMap(item => item.kind === 'turn' ? [item.turn] : []);
+    const userMessages = turns.filter(turn => turn.subject).length;
+    const aiMessages = turns.filter(turn => turn.analysis || turn.verdictSource).length;
     const avgProbability = history.length > 0
       ? Math.round(history.reduce((sum, h) => sum + h.value, 0) / history.length)
       : 0;
     let duration = '00:00';
-    if (sessionStartTime && status === SessionStatus.ACTIVE) {
+    if (sessionStartTime && (status === SessionStatus.ACTIVE || status === SessionStatus.RECONNECTING)) {
       const elapsed = Math.floor((Date.now() - sessionStartTime) / 1000);
       const mins = Math.floor(elapsed / 60).toString().padStart(2, '0');
       const secs = (elapsed % 60).toString().padStart(2, '0');
       duration = `${mins}:${secs}`;
     }
     return { userMessages, aiMessages, avgProbability, duration };
-  }, [logs, history, sessionStartTime, status]);
+  }, [timeline, history, sessionStartTime, status]);
+
+  // 图表与日志面板只渲染最近的数据，完整记录保留用于导出
+  const chartHistory = useMemo(() => history.slice(-CHART_WINDOW), [history]);
+  const visibleTimeline = useMemo(() => timeline.slice(-MAX_LOGS), [timeline]);
+  const questionSummaries = useMemo(() => plan ? summarizeQuestions(plan, verdicts) : [], [plan, verdicts]);
+  const currentQuestionIndex = plan && currentQuestionId ? plan.questions.findIndex(q => q.id === currentQuestionId) : -1;
+  const planFinished = !!plan && !currentQuestionId && segments.length >= plan.questions.length;
+
+  // 回放模式下日志与趋势图面板展示存档数据（只读）
+  const viewTimeline = useMemo(() => replay ? replay.timeline ?? timelineFromLogs(replay.logs, replay.verdicts) : visibleTimeline, [replay, visibleTimeline]);
+  const viewHistory = replay ? replay.history : chartHistory;
+  const viewParticipants = replay ? replay.participants ?? [] : participants;
+  const viewVerdicts = replay ? replay.verdicts : verdicts;
+  const participantSummaries = useMemo(() => summarizeParticipants(viewParticipants, viewVerdicts), [viewParticipants, viewVerdicts]);
+  // 两名以上受审者时每人一条曲线，否则沿用单条欺骗率曲线
+  const chartSubjects = useMemo(() => {
+    const subjects = scoredParticipants(viewParticipants);
+    return subjects.length > 1 ? subjects : [];
+  }, [viewParticipants]);
 
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+  }, [timeline]);
 
   useEffect(() => {
     if (status !== SessionStatus.ACTIVE || !sessionStartTime) return;
@@ -65,143 +216,499 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // 多人会话中按数字键 1-9 标记当前发言人（输入框中除外）
+  useEffect(() => {
+    if (!isLive || !multiSpeaker) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey || target?.closest('input, textarea, select')) return;
+      const participant = participants[Number(e.key) - 1];
+      if (participant) setActiveSpeaker(participant.id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isLive, multiSpeaker, participants]);
+
+  // 会话进行中持续写入本地历史库，刷新或断线后记录不会丢失
+  useEffect(() => {
+    if (!sessionMeta || timeline.length === 0) return;
+    const timer = setTimeout(() => {
+      autosaveSession(buildArchive()).catch(e => console.warn('Failed to persist session', e));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionMeta, timeline, verdicts]);
+
   useEffect(() => {
     if (status !== SessionStatus.ACTIVE) return;
     const interval = setInterval(() => {
       setBiometrics(prev => {
         const stressFactor = lieProbability / 100;
+        const reading = heartRateRef.current;
+        const measured = !!reading?.reliable && reading.bpm !== null;
         return {
-          heartRate: Math.max(60, Math.min(180, prev.heartRate + (Math.random() - 0.5) * 5 + (stressFactor * 5))),
+          heartRate: measured ? reading!.bpm! : Math.max(60, Math.min(180, prev.heartRate + (Math.random() - 0.5) * 5 + (stressFactor * 5))),
           stressLevel: Math.max(0, Math.min(100, (stressFactor * 80) + (Math.random() * 20))),
           pupilDilation: Math.max(2, Math.min(8, prev.pupilDilation + (Math.random() - 0.5) * 0.5)),
+          heartRateMeasured: measured,
+          signalQuality: reading?.quality ?? 0,
         };
       });
-      setHistory(prev => {
-        const newHistory = [...prev, { time: Date.now(), value: lieProbability }];
-        if (newHistory.length > 50) newHistory.shift();
-        return newHistory;
-      });
+      const rates = isMultiSpeaker(settingsRef.current.participants) ? { ...speakerRatesRef.current } : undefined;
+      setHistory(prev => [...prev, { time: Date.now(), value: lieProbability, rates }]);
     }, 1000);
     return () => clearInterval(interval);
   }, [status, lieProbability]);
 
+  const setCalibration = (next: { index: number; samples: CalibrationSample[] } | null) => {
+    calibrationRef.current = next ? { ...next, countedLogIds: calibrationRef.current?.countedLogIds ?? new Set() } : null;
+    setCalibrationState(next);
+  };
+
+  const setCurrentQuestionId = (id: string | null) => {
+    currentQuestionIdRef.current = id;
+    setCurrentQuestionIdState(id);
+  };
+
+  const setActiveSpeaker = (id: string | null) => {
+    activeSpeakerIdRef.current = id;
+    setActiveSpeakerIdState(id);
+    providerRef.current.setActiveSpeaker(findParticipant(settingsRef.current.participants, id ?? undefined) ?? null);
+  };
+
+  const updateSettings = (next: AppSettings) => {
+    setSettingsState(next);
+    saveSettings(next);
+    // 音量与回声门控在会话中即时生效
+    providerRef.current.setAudioOutput(next.audioOutput);
+  };
+
+  const setBaseline = (next: SubjectBaseline | null) => {
+    baselineRef.current = next;
+    setBaselineState(next);
+    providerRef.current.setBaseline(next);
+  };
+
+  // 校准阶段的判定只计入当前对照问题，不进入会话记录；logId 用于去重流式重复解析
+  const captureCalibrationRate = (rate: number, logId: string): boolean => {
+    const current = calibrationRef.current;
+    if (!current) return false;
+    if (!current.countedLogIds.has(logId)) {
+      current.countedLogIds.add(logId);
+      current.samples[current.index].rates.push(rate);
+      setCalibrationState({ index: current.index, samples: current.samples });
+    }
+    return true;
+  };
+
+  const handleVolume = useCallback((volume: number) => {
+    setInputVolume(volume);
+    const current = calibrationRef.current;
+    if (current && volume > SPEECH_VOLUME_FLOOR) current.samples[current.index].volumes.push(volume);
+  }, []);
+
+  const handleVocalFeatures = useCallback((features: VocalFeatures) => {
+    if (!timelineRef.current.attachVocal(features)) pendingVocalRef.current = features;
+    setLastVocal(features);
+  }, []);
+
+  const handleFace = useCallback((region: FrameRegion | null) => {
+    setFaceRegion(region);
+    rppgRef.current?.setRegion(region ? faceSampleRegion(region) : DEFAULT_FACE_REGION);
+    providerRef.current.setFaceRegion(settingsRef.current.faceCrop ? region : null);
+  }, []);
+
+  const turnContext = (): TurnContext => ({
+    now: Date.now(),
+    questionId: currentQuestionIdRef.current ?? undefined,
+    mediaTime: mediaFileRef.current.currentTime() ?? undefined,
+    speakerId: isMultiSpeaker(settingsRef.current.participants) ? activeSpeakerIdRef.current ?? undefined : undefined,
+  });
+
+  const recordSpeakerRate = (speakerId: string | undefined, rate: number) => {
+    if (!speakerId) return;
+    speakerRatesRef.current = { ...speakerRatesRef.current, [speakerId]: rate };
+    setRateSpeakerId(speakerId);
+  };
+
+  // 模型在分析文字中以标签给出欺骗率；本轮已有结构化判定时不再解析，审讯员的发言不评分
+  const applyTranscriptRate = (turn: Turn) => {
+    if (turn.verdictSource === 'tool' || !isScored(settingsRef.current.participants, turn.speakerId)) return;
+    const rawProb = parseDeceptionRate(turn.analysis, settingsRef.current.prompt.language);
+    if (rawProb === null) return;
+    const calibrating = captureCalibrationRate(rawProb, turn.id);
+    const prob = calibrating ? rawProb : normalizeRate(rawProb, baselineRef.current);
+    const cleanMsg = stripDeceptionTag(turn.analysis);
+    setLastAnalysis(cleanMsg || tRef.current('analyzing'));
+    setLastVerdict(null);
+    if (!calibrating) {
+      setLieProbability(prob);
+      recordSpeakerRate(turn.speakerId, prob);
+      // 同一轮分析在流式追加时会被多次解析，按轮次 id 覆盖判定记录
+      setVerdicts(prev => {
+        const record: VerdictRecord = {
+          logId: turn.id, time: Date.now(), timestamp: turn.timestamp, rate: prob,
+          rawRate: prob !== rawProb ? rawProb : undefined, reasoning: cleanMsg, source: 'transcript', questionId: turn.questionId,
+          mediaTime: turn.mediaTime, speakerId: turn.speakerId
+        };
+        const existing = prev.findIndex(v => v.logId === turn.id);
+        if (existing === -1) return [...prev, record];
+        const updated = [...prev];
+        updated[existing] = { ...record, time: prev[existing].time };
+        return updated;
+      });
+    }
+    timelineRef.current.update(turn.id, {
+      rate: prob, rawRate: prob !== rawProb ? rawProb : undefined, verdictSource: 'transcript', calibration: calibrating || undefined,
+      ...classifyRate(prob, settingsRef.current.prompt.bands)
+    });
+  };
+
   const handleLog = useCallback((text: string, isModel: boolean, isTurnComplete: boolean = false) => {
-    if (!text) return;
-
-    setLogs(prev => {
-      const lastLog = prev[prev.length - 1];
-      const lastIsModelLog = lastLog && lastLog.type !== 'neutral';
-      let updatedLogs: LogEntry[];
-
-      // 如果是同一个说话者且不是新的分析（不包含[欺骗率），则合并消息
-      if (lastLog && (lastIsModelLog === isModel) && !text.includes('[')) {
-        updatedLogs = [...prev];
-        updatedLogs[updatedLogs.length - 1] = { ...lastLog, message: lastLog.message + text };
-      } else {
-        // 新消息
-        const type: 'neutral' | 'truth' | 'deception' | 'system' = isModel ? 'system' : 'neutral';
-        updatedLogs = [...prev, {
-          id: Math.random().toString(36).substr(2, 9),
-          timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
-          message: text,
-          type
-        }];
-      }
+    const timeline = timelineRef.current;
+    const ctx = turnContext();
+    if (text && !isModel) {
+      timeline.subject(text, ctx);
+      if (pendingVocalRef.current && timeline.attachVocal(pendingVocalRef.current)) pendingVocalRef.current = null;
+    } else if (text) {
+      applyTranscriptRate(timeline.analysis(text, ctx));
+    }
+    if (isTurnComplete) timeline.complete(ctx.now);
+  }, []);
 
-      // 限制日志数量
-      while (updatedLogs.length > MAX_LOGS) updatedLogs.shift();
-      return updatedLogs;
+  const handleMediaEnded = useCallback(() => {
+    timelineRef.current.notice({
+      id: `sys-media-end-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: tRef.current('logMediaEnded'),
+      type: 'system'
     });
   }, []);
 
-  const handleDisconnect = useCallback(() => {
+  const handleDisconnect = useCallback((error: SessionError) => {
+    // 同一次断线可能同时触发 onerror/onclose 与连接异常，已排队重连时忽略
+    if (reconnectTimerRef.current) return;
+    diagnosticsRef.current.record('disconnect', `${error.kind}: ${error.message}`);
+    // 密钥、配额、设备类错误重连也会以同样方式失败，直接报错
+    if (error.retryable && sessionLiveRef.current && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
+      scheduleReconnect();
+      return;
+    }
+    sessionLiveRef.current = false;
+    setSessionError(error);
     setStatus(SessionStatus.ERROR);
     setSessionStartTime(null);
+    closeOpenSegment();
+    setSessionMeta(prev => prev && !prev.endedAt ? { ...prev, endedAt: Date.now() } : prev);
     cleanupSession();
     // 添加断开连接日志
-    setLogs(prev => [...prev, {
+    timelineRef.current.notice({
       id: `sys-disc-${Date.now()}`,
       timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
-      message: '连接已断开 / CONNECTION LOST',
+      message: `${tRef.current('logConnectionLost')} ${tRef.current(error.messageKey)}`,
       type: 'deception'
-    }]);
+    });
   }, []);
 
-  const parseDeceptionRate = useCallback((text: string): number | null => {
-    const patterns = [
-      /\[\s*欺骗率\s*[:：]\s*(\d+)\s*%\s*\]/,
-      /欺骗率\s*[:：]?\s*(\d+)\s*%/,
-      /deception\s*[:：]?\s*(\d+)\s*%/i,
-      /(\d+)\s*%\s*欺骗/,
-    ];
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const value = parseInt(match[1], 10);
-        if (value >= 0 && value <= 100) return value;
-      }
+  const handleVerdict = useCallback((verdict: Verdict) => {
+    const now = Date.now();
+    const turn = timelineRef.current.verdictTarget(turnContext());
+    // 模型被要求不评判审讯员，仍给出的判定直接丢弃
+    if (!isScored(settingsRef.current.participants, turn.speakerId)) return;
+    const { deceptionRate, confidence, cues, reasoning } = verdict;
+    const calibrating = captureCalibrationRate(deceptionRate, turn.id);
+    const rate = calibrating ? deceptionRate : normalizeRate(deceptionRate, baselineRef.current);
+    const rawRate = rate !== deceptionRate ? deceptionRate : undefined;
+    pendingVocalRef.current = null;
+
+    setLastAnalysis(reasoning || tRef.current('analyzing'));
+    setLastVerdict(verdict);
+    if (!calibrating) {
+      setLieProbability(rate);
+      recordSpeakerRate(turn.speakerId, rate);
+      // 结构化判定优先：替换本轮已从分析文字中解析出的判定
+      setVerdicts(prev => [
+        ...prev.filter(v => v.logId !== turn.id),
+        { logId: turn.id, time: now, timestamp: turn.timestamp, rate, rawRate, reasoning, source: 'tool', confidence, cues, questionId: turn.questionId, mediaTime: turn.mediaTime, speakerId: turn.speakerId }
+      ]);
     }
-    return null;
+    timelineRef.current.update(turn.id, {
+      rate, rawRate, verdictSource: 'tool', confidence, cues, reasoning, calibration: calibrating || undefined,
+      ...classifyRate(rate, settingsRef.current.prompt.bands)
+    });
   }, []);
 
-  useEffect(() => {
-    if (logs.length === 0) return;
-    const lastLog = logs[logs.length - 1];
-    if (lastLog.type !== 'neutral') {
-      const prob = parseDeceptionRate(lastLog.message);
-      if (prob !== null) {
-        setLieProbability(prob);
-        let newType: 'neutral' | 'truth' | 'deception' | 'system' = 'system';
-        if (prob > 75) newType = 'deception';
-        else if (prob < 50) newType = 'truth';
-        const cleanMsg = lastLog.message
-          .replace(/\[\s*欺骗率\s*[:：]\s*\d+\s*%\s*\]/g, '')
-          .replace(/欺骗率\s*[:：]?\s*\d+\s*%/g, '')
-          .trim();
-        setLastAnalysis(cleanMsg || '数据分析中...');
-        if (lastLog.type !== newType) {
-          setLogs(prev => {
-            const updated = [...prev];
-            updated[updated.length - 1].type = newType;
-            return updated;
-          });
+  // 更正某一轮的发言人：判定记录随之转移；改为审讯员时撤销该轮评分（改回后不会恢复）
+  const retagTurn = (turnId: string, speakerId: string) => {
+    if (isScored(participants, speakerId)) {
+      timelineRef.current.update(turnId, { speakerId });
+      setVerdicts(prev => prev.map(v => v.logId === turnId ? { ...v, speakerId } : v));
+      return;
+    }
+    timelineRef.current.update(turnId, {
+      speakerId, rate: undefined, rawRate: undefined, verdictSource: undefined, confidence: undefined, cues: undefined,
+      reasoning: undefined, calibration: undefined, type: 'neutral', band: undefined
+    });
+    setVerdicts(prev => prev.filter(v => v.logId !== turnId));
+  };
+
+  // 逐条发送文字陈述；可重试的错误只提示本条失败，其余错误按断线处理
+  const sendStatements = async (statements: string[]) => {
+    textQueueRef.current.push(...statements);
+    setPendingStatements(textQueueRef.current.length + (sendingTextRef.current ? 1 : 0));
+    if (sendingTextRef.current) return;
+    sendingTextRef.current = true;
+    while (sessionLiveRef.current && textQueueRef.current.length > 0) {
+      const next = textQueueRef.current.shift()!;
+      setPendingStatements(textQueueRef.current.length + 1);
+      try {
+        await providerRef.current.sendText(next);
+      } catch (err) {
+        const error = toSessionError(err);
+        diagnosticsRef.current.record('text-failed', `${error.kind}: ${error.message}`);
+        textQueueRef.current = [];
+        if (!error.retryable) {
+          handleDisconnect(error);
+          break;
         }
+        timelineRef.current.notice({
+          id: `sys-text-${Date.now()}`,
+          timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+          message: tRef.current('logTextFailed', { error: tRef.current(error.messageKey) }),
+          type: 'deception'
+        });
       }
     }
-  }, [logs, parseDeceptionRate]);
+    sendingTextRef.current = false;
+    setPendingStatements(0);
+  };
+
+  // 指数退避重连：保留媒体流、日志和趋势数据，仅重建 Live 会话
+  // 由 handleDisconnect 与定时器调用，闭包可能来自较早的渲染，翻译一律经 tRef 读取
+  const scheduleReconnect = () => {
+    const attempt = reconnectAttemptsRef.current + 1;
+    const delay = RECONNECT_DELAY * 2 ** (attempt - 1);
+    reconnectAttemptsRef.current = attempt;
+    setReconnectAttempts(attempt);
+    setStatus(SessionStatus.RECONNECTING);
+    // 录制文件在断线期间暂停，避免漏掉这段内容
+    mediaFileRef.current.pause();
+    timelineRef.current.notice({
+      id: `sys-reconn-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: tRef.current('logReconnecting', { seconds: delay / 1000, attempt, max: MAX_RECONNECT_ATTEMPTS }),
+      type: 'system'
+    });
+    reconnectTimerRef.current = window.setTimeout(reconnect, delay);
+  };
+
+  const reconnect = async () => {
+    reconnectTimerRef.current = null;
+    try { await providerRef.current.disconnect(); } catch {}
+    const stream = streamRef.current;
+    if (!sessionLiveRef.current || !stream || !videoRef.current || !canvasRef.current) return;
+    try {
+      // 最后一次尝试不带恢复句柄，避免过期句柄导致持续失败
+      const resume = reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS;
+      await providerRef.current.connect(stream, videoRef.current, canvasRef.current, resume);
+    } catch (err) {
+      console.warn('Reconnect attempt failed', err);
+      if (sessionLiveRef.current) handleDisconnect(toSessionError(err));
+      return;
+    }
+    // 重连期间用户已中止会话
+    if (!sessionLiveRef.current) {
+      await providerRef.current.disconnect();
+      return;
+    }
+    reconnectAttemptsRef.current = 0;
+    setReconnectAttempts(0);
+    setStatus(calibrationRef.current ? SessionStatus.CALIBRATING : SessionStatus.ACTIVE);
+    mediaFileRef.current.play();
+    timelineRef.current.notice({
+      id: `sys-resume-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: tRef.current('logLinkRestored'),
+      type: 'system'
+    });
+  };
 
   const cleanupSession = async () => {
-    try { await geminiLive.disconnect(); } catch {}
+    textQueueRef.current = [];
+    try { await providerRef.current.disconnect(); } catch {}
     if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
-    if (videoRef.current) videoRef.current.srcObject = null;
+    // 录制文件通过 src 播放，只暂停不卸载；清空 srcObject 会让元素重新加载 src
+    mediaFileRef.current.pause();
+    if (videoRef.current?.srcObject) videoRef.current.srcObject = null;
     setLieProbability(0);
-    setBiometrics({ heartRate: 75, stressLevel: 15, pupilDilation: 3.2 });
+    rppgRef.current?.stop();
+    heartRateRef.current = null;
+    faceTrackerRef.current?.stop();
+    providerRef.current.setFaceRegion(null);
+    setFaceRegion(null);
+    setBiometrics(IDLE_BIOMETRICS);
     setInputVolume(0);
+    setVideoStats(null);
   };
 
   const startSessionInternal = async () => {
-    const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+    const provider = providerRef.current;
+    let stream: MediaStream;
+    if (mediaFile && videoRef.current) {
+      stream = await mediaFileRef.current.open(mediaFile, videoRef.current, handleMediaEnded);
+    } else if (isTextChat) {
+      mediaFileRef.current.close();
+      stream = new MediaStream();
+    } else {
+      mediaFileRef.current.close();
+      try {
+        stream = await openMediaStream(settings.devices, hasVideo, hasAudio);
+      } catch (err) {
+        // 离线演示不依赖真实设备
+        if (provider.id !== 'mock') throw err;
+        stream = new MediaStream();
+      }
+      if (videoRef.current && hasVideo) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.play();
+      }
+    }
+    setMediaFileName(mediaFile?.name ?? null);
     streamRef.current = stream;
-    if (videoRef.current) {
-      videoRef.current.srcObject = stream;
-      videoRef.current.play();
+    if (videoRef.current && hasVideo) {
+      rppgRef.current ??= new RppgEstimator(reading => { heartRateRef.current = reading; });
+      rppgRef.current.setRegion(DEFAULT_FACE_REGION);
+      rppgRef.current.start(videoRef.current);
+      faceTrackerRef.current ??= new FaceTracker(handleFace);
+      faceTrackerRef.current.start(videoRef.current);
     }
-    geminiLive.setOnLog(handleLog);
-    geminiLive.setOnDisconnect(handleDisconnect);
-    geminiLive.setOnVolume(setInputVolume);
+    provider.setOnLog(handleLog);
+    provider.setOnDisconnect(handleDisconnect);
+    provider.setOnDiagnostic((type, detail) => diagnosticsRef.current.record(type, detail));
+    provider.setCredentials(settings.credentials);
+    provider.setAudioOutput(settings.audioOutput);
+    provider.setOnVolume(handleVolume);
+    provider.setOnVerdict(handleVerdict);
+    provider.setOnVocalFeatures(handleVocalFeatures);
+    provider.setOnVideoStats(setVideoStats);
+    provider.setPromptSettings(settings.prompt);
+    provider.setModality(sessionModality);
+    provider.setParticipants(participants);
+    provider.setTextChat(settings.textChat);
+    provider.setVideoSettings(settings.video);
     if (videoRef.current && canvasRef.current) {
-      await geminiLive.connect(stream, videoRef.current, canvasRef.current);
+      await provider.connect(stream, videoRef.current, canvasRef.current);
     }
-    setStatus(SessionStatus.ACTIVE);
-    setSessionStartTime(Date.now());
+    // 会话建立后再开始播放录制文件，保证从头分析
+    if (mediaFile) mediaFileRef.current.play();
+    const startedAt = Date.now();
+    sessionLiveRef.current = true;
+    setSessionStartTime(startedAt);
+    setSessionMeta({ id: `sess-${startedAt}`, startedAt, endedAt: null });
 
     // 添加系统初始化日志
-    setLogs(prev => [...prev, {
+    timelineRef.current.notice({
       id: `sys-init-${Date.now()}`,
       timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
-      message: '系统初始化完成，神经链路已建立。开始监控...',
+      message: t(calibrate ? 'logInitCalibrating' : 'logInitMonitoring'),
+      type: 'system'
+    });
+
+    if (calibrate) {
+      setStatus(SessionStatus.CALIBRATING);
+      setCalibration({ index: 0, samples: CALIBRATION_QUESTIONS.map(q => ({ questionId: q.id, expected: q.expected, rates: [], volumes: [] })) });
+      logCalibrationQuestion(0);
+    } else {
+      setStatus(SessionStatus.ACTIVE);
+    }
+  };
+
+  const loadPlan = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPlan(parseInterviewPlan(await file.text(), file.name));
+      setPlanError(null);
+    } catch (err) {
+      setPlanError(t('planInvalid', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const closeOpenSegment = () => {
+    const now = Date.now();
+    setSegments(prev => prev.map(seg => seg.endedAt === null ? { ...seg, endedAt: now } : seg));
+    setCurrentQuestionId(null);
+  };
+
+  // 结束当前问题段并进入下一题；最后一题之后结束脚本
+  const nextQuestion = () => {
+    if (!plan) return;
+    const index = plan.questions.findIndex(q => q.id === currentQuestionIdRef.current);
+    const next = index === -1 && segments.length > 0 ? undefined : plan.questions[index + 1];
+    closeOpenSegment();
+    if (next) {
+      setSegments(prev => [...prev, { questionId: next.id, startedAt: Date.now(), endedAt: null }]);
+      setCurrentQuestionId(next.id);
+    }
+    timelineRef.current.notice({
+      id: `sys-question-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: next ? t('logQuestion', { index: index + 2, total: plan.questions.length, text: next.text }) : t('logPlanComplete'),
+      type: 'system',
+      questionId: next?.id
+    });
+  };
+
+  const logCalibrationQuestion = (index: number) => {
+    timelineRef.current.notice({
+      id: `sys-calib-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: t('logCalibrationQuestion', { index: index + 1, total: CALIBRATION_QUESTIONS.length, text: t(CALIBRATION_QUESTIONS[index].prompt) }),
+      type: 'system'
+    });
+  };
+
+  const advanceCalibration = () => {
+    const current = calibrationRef.current;
+    if (!current) return;
+    if (current.index + 1 >= CALIBRATION_QUESTIONS.length) {
+      finishCalibration();
+      return;
+    }
+    setCalibration({ index: current.index + 1, samples: current.samples });
+    logCalibrationQuestion(current.index + 1);
+  };
+
+  // 计算基线并以包含基线的系统指令重建会话，正式监控从干净的上下文开始
+  const finishCalibration = async () => {
+    const samples = calibrationRef.current?.samples ?? [];
+    setCalibration(null);
+    const result = computeBaseline(samples);
+    setBaseline(result);
+    setLieProbability(0);
+    setLastVerdict(null);
+    setLastAnalysis(result ? t('baselineReady') : null);
+    timelineRef.current.notice({
+      id: `sys-baseline-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: result
+        ? t('logBaselineDone', { truth: result.truthRate, lie: result.lieRate, truthVolume: result.truthVolume, lieVolume: result.lieVolume })
+        : t('logBaselineSkipped'),
       type: 'system'
-    }]);
+    });
+
+    const stream = streamRef.current;
+    if (result && stream && videoRef.current && canvasRef.current) {
+      try {
+        await providerRef.current.disconnect();
+        await providerRef.current.connect(stream, videoRef.current, canvasRef.current);
+      } catch (err) {
+        console.warn('Failed to restart session with baseline', err);
+        if (sessionLiveRef.current) handleDisconnect(toSessionError(err));
+        return;
+      }
+    }
+    if (sessionLiveRef.current) setStatus(SessionStatus.ACTIVE);
   };
 
   const startSession = async () => {
@@ -214,21 +721,80 @@ const App: React.FC = () => {
       clearTimeout(reconnectTimerRef.current);
       reconnectTimerRef.current = null;
     }
+    reconnectAttemptsRef.current = 0;
     setReconnectAttempts(0);
+    sessionLiveRef.current = false;
+    setReplay(null);
+    setCalibration(null);
     await cleanupSession();
+    providerRef.current = ANALYSIS_PROVIDERS[providerId];
+    setBaseline(null);
+    setSessionError(null);
+    setDiagnosticsCopied(false);
+    diagnosticsRef.current.clear();
+    diagnosticsRef.current.record('session-start', `${providerId} · ${sessionModality}${mediaFile ? ' · file' : ''}`);
     try {
       setStatus(SessionStatus.CONNECTING);
-      setLogs([]);
+      timelineRef.current.reset();
       setLieProbability(0);
-      setLastAnalysis('系统待机...');
+      setLastAnalysis(null);
+      setLastVerdict(null);
+      setLastVocal(null);
+      pendingVocalRef.current = null;
       setHistory([]);
+      setVerdicts([]);
+      speakerRatesRef.current = {};
+      setRateSpeakerId(null);
+      // 默认由列表中的第一人开始发言
+      setActiveSpeaker(multiSpeaker ? participants[0].id : null);
+      setSegments([]);
+      setCurrentQuestionId(null);
+      setSessionMeta(null);
       await startSessionInternal();
     } catch (err) {
+      console.error('Failed to start session', err);
       await cleanupSession();
+      const error = toSessionError(err);
+      diagnosticsRef.current.record('start-failed', `${error.kind}: ${error.message}`);
+      setSessionError(error);
       setStatus(SessionStatus.ERROR);
     }
   };
 
+  // 诊断信息只含错误、环境和连接事件，不含转写内容与媒体
+  const copyDiagnostics = async () => {
+    const bundle = buildDiagnosticBundle(sessionError, diagnosticsRef.current.recent(), {
+      provider: providerId,
+      model: providerRef.current.model,
+      modality: sessionModality,
+      mediaFile: mediaFileName ?? undefined,
+    });
+    try {
+      await navigator.clipboard.writeText(bundle);
+      setDiagnosticsCopied(true);
+    } catch (err) {
+      console.warn('Clipboard unavailable', err);
+    }
+  };
+
+  // 会话中热切换设备：替换同一个流里的轨道，再让视频元素和音频采集重新绑定
+  const switchSessionDevice = async (kind: 'audio' | 'video', deviceId: string | null) => {
+    const stream = streamRef.current;
+    if (!stream) return;
+    await switchDevice(stream, kind, deviceId);
+    if (kind === 'video' && videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play();
+    }
+    if (kind === 'audio') await providerRef.current.rebindStream(stream);
+    timelineRef.current.notice({
+      id: `sys-device-${Date.now()}`,
+      timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+      message: t(kind === 'audio' ? 'logMicrophoneSwitched' : 'logCameraSwitched'),
+      type: 'system'
+    });
+  };
+
   const confirmPrivacyAndStart = () => {
     setShowPrivacyNotice(false);
     startSession();
@@ -239,27 +805,69 @@ const App: React.FC = () => {
       clearTimeout(reconnectTimerRef.current);
       reconnectTimerRef.current = null;
     }
+    reconnectAttemptsRef.current = 0;
     setReconnectAttempts(0);
+    sessionLiveRef.current = false;
+    setCalibration(null);
+    closeOpenSegment();
     await cleanupSession();
     setStatus(SessionStatus.IDLE);
-    setLastAnalysis('系统待机...');
+    setLastAnalysis(null);
     setSessionStartTime(null);
+    setSessionMeta(prev => prev && !prev.endedAt ? { ...prev, endedAt: Date.now() } : prev);
   };
 
-  const getThemeColor = () => {
-    if (isDanger) return '#ff003c';
-    if (isSuspicious) return '#ffaa00';
-    return '#00f3ff';
+  const buildArchive = (): SessionArchive => createSessionArchive({
+    id: sessionMeta!.id,
+    startedAt: sessionMeta!.startedAt,
+    endedAt: sessionMeta!.endedAt ?? Date.now(),
+    model: providerRef.current.model,
+    timeline,
+    history,
+    verdicts,
+    baseline: baseline ?? undefined,
+    plan: plan ?? undefined,
+    segments: plan ? segments : undefined,
+    bands,
+    modality: sessionModality,
+    mediaFile: mediaFileName ?? undefined,
+    participants: multiSpeaker ? participants : undefined,
+  });
+
+  const exportSession = (format: ExportFormat) => {
+    if (replay) downloadArchive(replay, format);
+    else if (sessionMeta) downloadArchive(buildArchive(), format);
   };
 
-  const getVerdictText = () => {
-    if (isDanger) return '谎言确认';
-    if (isSuspicious) return '高度可疑';
-    if (isTruth) return '诚实';
-    return '待机';
+  const openReplay = (archive: SessionArchive) => {
+    setLibraryOpen(false);
+    setBatchOpen(false);
+    setReplay(archive);
   };
 
+  const getThemeColor = () => currentBand.color;
+
+  // 录制文件会话中点击日志跳转到对应时刻；回放存档没有媒体可跳
+  const seekable = (mediaTime?: number) => mediaTime !== undefined && !replay && mediaFileRef.current.loaded;
+  const seekTo = (mediaTime: number) => mediaFileRef.current.seek(mediaTime);
+
+  // 视频以 object-cover 显示，需要把画面坐标换算到容器坐标
+  const video = videoRef.current;
+  const videoBox = videoBoxRef.current;
+  const faceBoxStyle = faceRegion && video?.videoWidth && videoBox
+    ? coverRegionStyle(faceRegion, video.videoWidth, video.videoHeight, videoBox.clientWidth, videoBox.clientHeight)
+    : null;
+
+  // 最低区间在没有分析结果时显示待机（移动端显示分析中）
+  const getVerdictText = (idleKey: MessageKey = 'verdictStandby') =>
+    isDanger || isSuspicious || isTruth ? bandLabel(currentBand, settings.uiLocale) : t(idleKey);
+
+  // 回放时参考线与日志颜色使用存档记录的区间
+  const viewBands = replay ? normalizeBands(replay.bands) : bands;
+  const viewThresholds = viewBands.slice(1);
+
   return (
+    <I18nContext.Provider value={{ locale: settings.uiLocale, t }}>
     <div className="h-screen w-full bg-[#02040a] text-[#00f3ff] overflow-hidden relative crt-flicker" style={{ color: getThemeColor() }}>
       <div className="scanlines"></div>
       {/* 背景氛围光 */}
@@ -271,59 +879,108 @@ const App: React.FC = () => {
           <div className="border-2 border-[#00f3ff] bg-[#02040a] p-4 md:p-6 max-w-md w-full">
             <div className="flex items-center gap-3 mb-4">
               <ShieldAlert className="w-6 h-6 text-[#ffaa00]" />
-              <h2 className="text-lg font-bold text-[#00f3ff]">隐私声明</h2>
+              <h2 className="text-lg font-bold text-[#00f3ff]">{t('privacyTitle')}</h2>
+            </div>
+            <p className="text-sm text-gray-300 mb-2">{t('privacyBody')}</p>
+            <p className="text-xs text-[#ffaa00] mb-4">{t('privacyDemo')}</p>
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-300 mb-3">
+              <span>{t('backend')}</span>
+              <select value={providerId} onChange={e => setProviderId(e.target.value as ProviderId)}
+                      className="bg-[#02040a] border border-[#00f3ff]/50 text-[#00f3ff] px-2 py-1">
+                {Object.values(ANALYSIS_PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-300 mb-3">
+              <span>{t('mediaSource')}</span>
+              <div className="flex items-center gap-2 min-w-0">
+                {mediaFile && <span className="truncate max-w-[10rem]" title={mediaFile.name}>{mediaFile.name}</span>}
+                {mediaFile
+                  ? <button onClick={() => setMediaFile(null)} className="border border-[#00f3ff]/50 text-[#00f3ff] px-2 py-1">{t('sourceCamera')}</button>
+                  : <button onClick={() => mediaInputRef.current?.click()} disabled={modality === 'text'} className="border border-[#00f3ff]/50 text-[#00f3ff] px-2 py-1 disabled:opacity-40">{t('chooseFile')}</button>}
+                <input ref={mediaInputRef} type="file" accept="video/mp4,video/webm,audio/wav,audio/*,video/*" className="hidden"
+                       onChange={e => { setMediaFile(e.target.files?.[0] ?? null); e.target.value = ''; }} />
+              </div>
             </div>
-            <p className="text-sm text-gray-300 mb-2">本应用将通过摄像头和麦克风采集数据进行分析。</p>
-            <p className="text-xs text-[#ffaa00] mb-4">⚠️ 这是演示应用，结果仅供娱乐</p>
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-300 mb-3">
+              <span>{t('modality')}</span>
+              <select value={sessionModality} disabled={sessionModality !== modality} onChange={e => {
+                        const next = e.target.value as AnalysisModality;
+                        // 文字对话没有媒体可分析
+                        if (next === 'text') setMediaFile(null);
+                        setModality(next);
+                      }}
+                      className="bg-[#02040a] border border-[#00f3ff]/50 text-[#00f3ff] px-2 py-1">
+                {MODALITIES.map(m => <option key={m.id} value={m.id}>{t(m.label)}</option>)}
+              </select>
+            </label>
+            <label className={`flex items-center gap-2 text-xs text-gray-300 mb-4 ${canCalibrate ? 'cursor-pointer' : 'opacity-40'}`} title={canCalibrate ? undefined : t(mediaFile ? 'calibrationNeedsLive' : 'calibrationNeedsAudio')}>
+              <input type="checkbox" checked={calibrate} disabled={!canCalibrate} onChange={e => setCalibrationEnabled(e.target.checked)} className="accent-[#00f3ff]" />
+              {t('calibrationToggle')}
+            </label>
             <div className="flex gap-2">
-              <button onClick={() => setShowPrivacyNotice(false)} className="flex-1 py-3 border border-[#ff003c] text-[#ff003c] font-bold">取消</button>
-              <button onClick={confirmPrivacyAndStart} className="flex-1 py-3 border border-[#00f3ff] text-[#00f3ff] font-bold">继续</button>
+              <button onClick={() => setShowPrivacyNotice(false)} className="flex-1 py-3 border border-[#ff003c] text-[#ff003c] font-bold">{t('cancel')}</button>
+              <button onClick={confirmPrivacyAndStart} className="flex-1 py-3 border border-[#00f3ff] text-[#00f3ff] font-bold">{t('continue')}</button>
             </div>
           </div>
         </div>
       )}
 
+      {/* 历史会话库 */}
+      {libraryOpen && <SessionLibrary onClose={() => setLibraryOpen(false)} onOpen={openReplay} />}
+
+      {/* 会话分析：基于完整趋势数据，不受图表窗口限制；会话进行中随数据刷新 */}
+      {analyticsOpen && (replay || sessionMeta) && (
+        <AnalyticsPanel archive={replay ?? buildArchive()} bands={viewBands} onClose={() => setAnalyticsOpen(false)} />
+      )}
+
+      {/* 文稿批量分析：结果与现场会话同一存档格式，可导出、存入历史或在主界面查看 */}
+      {batchOpen && <BatchAnalysisPanel providerId={providerId} settings={settings} onClose={() => setBatchOpen(false)} onOpen={openReplay} />}
+
+      {/* 设置 */}
+      {settingsOpen && <SettingsPanel settings={settings} onChange={updateSettings} onClose={() => setSettingsOpen(false)} />}
+
+      {/* 设备选择与诊断 */}
+      {devicesOpen && (
+        <DeviceSetupPanel selection={settings.devices} onSelect={devices => updateSettings({ ...settings, devices })}
+                          liveStream={isLive && !mediaFileName ? streamRef.current : null} liveLevel={inputVolume}
+                          onSwitch={switchSessionDevice} onClose={() => setDevicesOpen(false)} />
+      )}
+
       {/* 移动端日志抽屉 */}
       {mobileLogsOpen && (
         <div className="md:hidden fixed inset-0 z-50 bg-black/95 flex flex-col">
           <div className="flex items-center justify-between px-4 py-3 border-b border-[#00f3ff]/30">
-            <h3 className="text-[#00f3ff] font-bold tracking-widest">实时日志 / LIVE_LOG</h3>
+            <h3 className="text-[#00f3ff] font-bold tracking-widest">{t('liveLog')}</h3>
             <button onClick={() => setMobileLogsOpen(false)} className="p-2">
               <X size={20} className="text-[#00f3ff]" />
             </button>
           </div>
           {/* 移动端趋势图 */}
-          {history.length > 0 && (
+          {viewHistory.length > 0 && (
             <div className="flex-none px-4 py-3 border-b border-[#00f3ff]/20">
-              <div className="text-xs opacity-60 mb-2 tracking-wider">欺骗率趋势 / TREND</div>
+              <div className="text-xs opacity-60 mb-2 tracking-wider">{t('trend')}</div>
               <div className="h-[80px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={history}>
+                  <LineChart data={viewHistory}>
                     <YAxis domain={[0, 100]} hide />
                     <XAxis hide />
-                    <ReferenceLine y={50} stroke="#ffaa00" strokeDasharray="3 3" opacity={0.5} />
-                    <ReferenceLine y={75} stroke="#ff003c" strokeDasharray="3 3" opacity={0.5} />
-                    <Line type="monotone" dataKey="value" stroke={getThemeColor()} strokeWidth={2} dot={false} isAnimationActive={false} />
+                    {viewThresholds.map(band => <ReferenceLine key={band.id} y={band.threshold} stroke={band.color} strokeDasharray="3 3" opacity={0.5} />)}
+                    {chartSubjects.length > 0
+                      ? chartSubjects.map(p => <Line key={p.id} type="monotone" dataKey={`rates.${p.id}`} stroke={p.color} strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />)
+                      : <Line type="monotone" dataKey="value" stroke={getThemeColor()} strokeWidth={2} dot={false} isAnimationActive={false} />}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
               <div className="flex justify-between text-[10px] opacity-40 font-mono">
-                <span>0%</span><span>50%</span><span>75%</span><span>100%</span>
+                <span>0%</span>{viewThresholds.map(band => <span key={band.id}>{band.threshold}%</span>)}<span>100%</span>
               </div>
             </div>
           )}
           <div className="flex-1 overflow-y-auto p-3 space-y-2">
-            {logs.map((log) => (
-              <div key={log.id} className={`p-2 border-l-2 text-sm ${
-                log.type === 'deception' ? 'border-[#ff003c] bg-[#ff003c]/10 text-[#ff003c]' :
-                log.type === 'truth' ? 'border-[#00f3ff] bg-[#00f3ff]/10 text-[#00f3ff]' :
-                log.type === 'system' ? 'border-[#ffaa00] text-[#ffaa00]' :
-                'border-gray-500 text-gray-300'
-              }`}>
-                <span className="opacity-50 text-xs">[{log.timestamp}]</span>
-                <div className="mt-1">{log.message}</div>
-              </div>
-            ))}
+            <div className="text-sm space-y-2">
+              <TimelineView items={viewTimeline} bands={viewBands} accent={getThemeColor()} seekable={seekable} onSeek={seekTo}
+                            participants={viewParticipants} onRetag={replay ? undefined : retagTurn} />
+            </div>
             <div ref={logsEndRef} />
           </div>
         </div>
@@ -342,19 +999,22 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-lg md:text-3xl font-chinese font-bold tracking-tight" style={{ textShadow: `0 0 15px ${getThemeColor()}` }}>
-                神经测谎仪 <span className="text-xs md:text-sm align-top opacity-70 font-display">2077</span>
+                {t('appTitle')} <span className="text-xs md:text-sm align-top opacity-70 font-display">2077</span>
               </h1>
               <p className="text-[8px] md:text-[10px] tracking-[0.3em] md:tracking-[0.5em] opacity-60 font-display">VERITAS_V9_PROTOCOL</p>
             </div>
           </div>
           <div className="text-right">
-            <div className="hidden md:block text-xs opacity-50 mb-1">系统状态 / SYSTEM STATUS</div>
+            <div className="hidden md:block text-xs opacity-50 mb-1">{t('systemStatus')}</div>
             <div className="flex items-center justify-end gap-2 text-xs md:text-base font-display font-bold">
-              {status === SessionStatus.ACTIVE && <span className="w-2 h-2 rounded-full bg-current animate-pulse"></span>}
+              {(status === SessionStatus.ACTIVE || status === SessionStatus.RECONNECTING || status === SessionStatus.CALIBRATING) && <span className="w-2 h-2 rounded-full bg-current animate-pulse"></span>}
               <span>
-                {status === SessionStatus.IDLE ? 'STANDBY' :
+                {replay ? 'REPLAY' :
+                 status === SessionStatus.IDLE ? 'STANDBY' :
                  status === SessionStatus.CONNECTING ? 'CONNECTING...' :
-                 status === SessionStatus.ACTIVE ? 'MONITORING' : 'DISCONNECTED'}
+                 status === SessionStatus.CALIBRATING ? 'CALIBRATING' :
+                 status === SessionStatus.ACTIVE ? 'MONITORING' :
+                 status === SessionStatus.RECONNECTING ? `RECONNECTING (${reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})` : 'DISCONNECTED'}
               </span>
             </div>
           </div>
@@ -365,23 +1025,33 @@ const App: React.FC = () => {
 
           {/* 左侧面板 - 桌面端 */}
           <div className="hidden md:flex md:col-span-3 flex-col gap-3 min-h-0">
-            <Panel title="生物遥测 / BIO_METRICS" className="flex-none" alert={isDanger}>
+            <Panel title={t('bioMetrics')} className="flex-none" alert={isDanger}>
               <div className="space-y-4 pt-2">
-                <div>
-                  <div className="flex justify-between text-xs opacity-70 mb-1">
-                    <span className="flex items-center gap-2"><Activity size={14}/> 心率 / BPM</span>
-                    <span className={biometrics.heartRate > 120 ? 'text-[#ff003c]' : biometrics.heartRate > 90 ? 'text-[#ffaa00]' : ''}>
-                      {biometrics.heartRate > 120 ? '危急' : biometrics.heartRate > 90 ? '升高' : '正常'}
-                    </span>
-                  </div>
-                  <div className="text-2xl font-display font-bold tabular-nums">{Math.round(biometrics.heartRate)}</div>
-                  <div className="h-1 bg-gray-900 mt-2 overflow-hidden">
-                    <div className="h-full transition-all duration-300" style={{ width: `${(biometrics.heartRate / 200) * 100}%`, backgroundColor: getThemeColor() }}></div>
+                {/* 心率来自摄像头 rPPG，纯音频模式下不显示 */}
+                {hasVideo && (
+                  <div>
+                    <div className="flex justify-between text-xs opacity-70 mb-1">
+                      <span className="flex items-center gap-2"><Activity size={14}/> {t('heartRate')}</span>
+                      <span className={biometrics.heartRate > 120 ? 'text-[#ff003c]' : biometrics.heartRate > 90 ? 'text-[#ffaa00]' : ''}>
+                        {t(biometrics.heartRate > 120 ? 'hrCritical' : biometrics.heartRate > 90 ? 'hrElevated' : 'hrNormal')}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <div className="text-2xl font-display font-bold tabular-nums">{Math.round(biometrics.heartRate)}</div>
+                      <div className={`text-[10px] font-mono ${biometrics.heartRateMeasured ? '' : 'text-[#ffaa00]'}`}
+                           title={`${t('signalQuality')}: ${Math.round(biometrics.signalQuality * 100)}%`}>
+                        {t(biometrics.heartRateMeasured ? 'hrMeasured' : 'hrSimulated')} · {t('signalQuality')} {Math.round(biometrics.signalQuality * 100)}%
+                      </div>
+                    </div>
+                    <div className="h-1 bg-gray-900 mt-2 overflow-hidden">
+                      <div className="h-full transition-all duration-300" style={{ width: `${(biometrics.heartRate / 200) * 100}%`, backgroundColor: getThemeColor() }}></div>
+                    </div>
                   </div>
-                </div>
+                )}
                 <div>
                   <div className="flex justify-between text-xs opacity-70 mb-1">
-                    <span className="flex items-center gap-2"><Cpu size={14}/> 皮质醇 / STRESS</span>
+                    <span className="flex items-center gap-2"><Cpu size={14}/> {t('stress')}</span>
+                    <span className="text-[10px] font-mono text-[#ffaa00]">{t('simulatedTag')}</span>
                   </div>
                   <div className="text-2xl font-display font-bold tabular-nums">{Math.round(biometrics.stressLevel)}%</div>
                   <div className="h-1 bg-gray-900 mt-2 overflow-hidden">
@@ -391,47 +1061,91 @@ const App: React.FC = () => {
               </div>
             </Panel>
 
-            {status === SessionStatus.ACTIVE && (
-              <Panel title="会话统计 / SESSION_STATS" className="flex-none" alert={isDanger}>
+            {(status === SessionStatus.ACTIVE || status === SessionStatus.RECONNECTING) && (
+              <Panel title={t('sessionStats')} className="flex-none" alert={isDanger}>
                 <div className="grid grid-cols-2 gap-3 pt-2 text-xs">
                   <div className="flex items-center gap-2">
                     <Clock size={12} className="opacity-50" />
-                    <span className="opacity-70">时长:</span>
+                    <span className="opacity-70">{t('statDuration')}</span>
                     <span className="font-display font-bold">{sessionStats.duration}</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <TrendingUp size={12} className="opacity-50" />
-                    <span className="opacity-70">平均:</span>
+                    <span className="opacity-70">{t('statAverage')}</span>
                     <span className="font-display font-bold">{sessionStats.avgProbability}%</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <MessageSquare size={12} className="opacity-50" />
-                    <span className="opacity-70">发言:</span>
+                    <span className="opacity-70">{t('statStatements')}</span>
                     <span className="font-display font-bold">{sessionStats.userMessages}</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <BarChart3 size={12} className="opacity-50" />
-                    <span className="opacity-70">分析:</span>
+                    <span className="opacity-70">{t('statAnalyses')}</span>
                     <span className="font-display font-bold">{sessionStats.aiMessages}</span>
                   </div>
                 </div>
               </Panel>
             )}
 
-            <Panel title="实时日志 / LIVE_LOG" className="flex-1 min-h-0 flex flex-col" alert={isDanger}>
+            {plan && !replay && (
+              <Panel title={t('interviewPlan')} className="flex-none max-h-[35%] flex flex-col" alert={isDanger}>
+                <div className="flex items-center justify-between text-xs pt-2 mb-2">
+                  <span className="font-chinese font-bold truncate">{plan.title}</span>
+                  {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && (
+                    <button onClick={() => setPlan(null)} className="opacity-60 hover:opacity-100" title={t('removePlan')}><X size={14} /></button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-y-auto space-y-1 pr-1 text-xs custom-scrollbar">
+                  {questionSummaries.map((q, i) => (
+                    <div key={q.question.id} className={`flex items-start gap-2 p-1 border-l-2 ${
+                      q.question.id === currentQuestionId ? 'border-current bg-current/10' : 'border-transparent opacity-70'
+                    }`}>
+                      <span className="font-display opacity-50 w-5">{i + 1}</span>
+                      <span className="flex-1 font-chinese leading-snug">{q.question.text}</span>
+                      <span className={`font-display font-bold tabular-nums ${q.avgRate === null ? 'opacity-30' : ''}`}
+                            style={q.avgRate !== null ? { color: bandFor(q.avgRate, viewBands).color } : undefined}>{q.avgRate !== null ? `${q.avgRate}%` : '--'}</span>
+                    </div>
+                  ))}
+                </div>
+              </Panel>
+            )}
+
+            {isMultiSpeaker(viewParticipants) && (
+              <Panel title={t('participantsPanel')} className="flex-none" alert={isDanger}>
+                <div className="space-y-1 pt-2 text-xs" title={isLive ? t('activeSpeaker') : undefined}>
+                  {viewParticipants.map((participant, i) => {
+                    const summary = participantSummaries.find(p => p.participant.id === participant.id);
+                    const active = isLive && participant.id === activeSpeakerId;
+                    return (
+                      <button key={participant.id} disabled={!isLive} onClick={() => setActiveSpeaker(participant.id)}
+                              className={`w-full flex items-center gap-2 p-1 border-l-2 text-left ${active ? 'bg-current/10' : 'opacity-70'} ${isLive ? 'hover:opacity-100' : 'cursor-default'}`}
+                              style={{ borderColor: participant.color }}>
+                        <span className="font-display opacity-50 w-3">{i + 1}</span>
+                        <span className="flex-1 font-chinese truncate" style={{ color: participant.color }}>
+                          {participantLabel(participant, viewParticipants, settings.uiLocale)}
+                          {active && <Mic size={10} className="inline ml-1 animate-pulse" />}
+                        </span>
+                        {summary ? (
+                          <span className="font-display tabular-nums opacity-80">
+                            {summary.lastRate !== null ? `${summary.lastRate}%` : '--'}
+                            <span className="opacity-50"> · {t('participantAvg')} {summary.avgRate ?? '--'} · {t('participantPeak')} {summary.maxRate ?? '--'}</span>
+                          </span>
+                        ) : (
+                          <span className="opacity-50">{t('notScored')}</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </Panel>
+            )}
+
+            <Panel title={t('liveLog')} className="flex-1 min-h-0 flex flex-col" alert={isDanger}>
               <div className="flex-1 overflow-y-auto space-y-2 pr-1 font-mono text-xs custom-scrollbar">
-                {logs.length === 0 && <div className="text-center opacity-30 mt-10">等待数据流...</div>}
-                {logs.map((log) => (
-                  <div key={log.id} className={`p-2 border-l-2 text-xs leading-relaxed break-words ${
-                    log.type === 'deception' ? 'border-[#ff003c] bg-[#ff003c]/10 text-[#ff003c]' :
-                    log.type === 'truth' ? 'border-[#00f3ff] bg-[#00f3ff]/10 text-[#00f3ff]' :
-                    log.type === 'system' ? 'border-[#ffaa00] text-[#ffaa00]' :
-                    'border-current opacity-80'
-                  }`} style={{ borderColor: log.type === 'neutral' ? getThemeColor() : undefined }}>
-                    <span className="opacity-50 select-none">[{log.timestamp}] {log.type === 'neutral' ? '受审者' : 'V9_系统'}:</span><br/>
-                    {log.message}
-                  </div>
-                ))}
+                {viewTimeline.length === 0 && <div className="text-center opacity-30 mt-10">{t('awaitingData')}</div>}
+                <TimelineView items={viewTimeline} bands={viewBands} accent={getThemeColor()} seekable={seekable} onSeek={seekTo}
+                            participants={viewParticipants} onRetag={replay ? undefined : retagTurn} />
                 <div ref={logsEndRef} />
               </div>
             </Panel>
@@ -439,13 +1153,9 @@ const App: React.FC = () => {
 
           {/* 中央视频区 */}
           <div className="flex-1 md:col-span-6 flex flex-col gap-2 md:gap-3 min-h-0">
-            <div className={`relative flex-1 min-h-[250px] md:min-h-0 bg-black border-2 overflow-hidden transition-all duration-500 ${
-              status === SessionStatus.ERROR ? 'border-red-600' :
-              isDanger ? 'border-[#ff003c] shadow-[0_0_30px_rgba(255,0,60,0.4)]' :
-              isSuspicious ? 'border-[#ffaa00] shadow-[0_0_25px_rgba(255,170,0,0.3)]' :
-              'border-[#00f3ff] shadow-[0_0_20px_rgba(0,243,255,0.3)]'
-            }`}>
-              <video ref={videoRef} muted playsInline className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${status === SessionStatus.ACTIVE ? 'opacity-80' : 'opacity-20'} mix-blend-screen grayscale-[30%] contrast-125`} />
+            <div ref={videoBoxRef} className={`relative flex-1 min-h-[250px] md:min-h-0 bg-black border-2 overflow-hidden transition-all duration-500 ${status === SessionStatus.ERROR ? 'border-red-600' : ''}`}
+                 style={status === SessionStatus.ERROR ? undefined : { borderColor: getThemeColor(), boxShadow: `0 0 ${isDanger ? 30 : 20}px ${getThemeColor()}66` }}>
+              <video ref={videoRef} muted playsInline className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${status === SessionStatus.ACTIVE || status === SessionStatus.CALIBRATING ? 'opacity-80' : 'opacity-20'} mix-blend-screen grayscale-[30%] contrast-125`} />
               <canvas ref={canvasRef} className="hidden" />
 
               {/* 扫描效果和面部追踪框 */}
@@ -454,36 +1164,101 @@ const App: React.FC = () => {
                   {/* 网格背景 */}
                   <div className="absolute inset-0 bg-[linear-gradient(rgba(0,243,255,0.03)_1px,transparent_1px),linear-gradient(90deg,rgba(0,243,255,0.03)_1px,transparent_1px)] bg-[size:20px_20px]"></div>
 
-                  {/* 面部追踪框 */}
-                  <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[55%] md:w-[50%] h-[65%] md:h-[70%] transition-all duration-300 border border-opacity-60 ${
-                    isDanger ? 'border-[#ff003c]' : isSuspicious ? 'border-[#ffaa00]' : 'border-[#00f3ff]'
-                  }`}>
-                    {/* 四角标记 */}
-                    <div className="absolute -top-1 -left-1 w-4 h-4 border-t-2 border-l-2 border-current"></div>
-                    <div className="absolute -top-1 -right-1 w-4 h-4 border-t-2 border-r-2 border-current"></div>
-                    <div className="absolute -bottom-1 -left-1 w-4 h-4 border-b-2 border-l-2 border-current"></div>
-                    <div className="absolute -bottom-1 -right-1 w-4 h-4 border-b-2 border-r-2 border-current"></div>
-                    {/* 目标锁定标签 */}
-                    <div className={`absolute -bottom-6 left-0 text-[10px] px-1 font-bold font-display ${
-                      isDanger ? 'bg-[#ff003c] text-black' :
-                      isSuspicious ? 'bg-[#ffaa00] text-black' :
-                      'bg-[#00f3ff] text-black'
-                    }`}>TARGET_LOCKED</div>
-                  </div>
+                  {/* 面部追踪框：跟随检测到的人脸，丢失目标时退回居中的虚线框；纯音频与文字模式显示占位 */}
+                  {hasVideo ? (
+                    <div className={`absolute transition-all duration-300 border ${faceBoxStyle ? '' : 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[55%] md:w-[50%] h-[65%] md:h-[70%] border-dashed opacity-50'}`}
+                         style={{ ...faceBoxStyle, borderColor: `${getThemeColor()}99` }}>
+                      {/* 四角标记 */}
+                      <div className="absolute -top-1 -left-1 w-4 h-4 border-t-2 border-l-2 border-current"></div>
+                      <div className="absolute -top-1 -right-1 w-4 h-4 border-t-2 border-r-2 border-current"></div>
+                      <div className="absolute -bottom-1 -left-1 w-4 h-4 border-b-2 border-l-2 border-current"></div>
+                      <div className="absolute -bottom-1 -right-1 w-4 h-4 border-b-2 border-r-2 border-current"></div>
+                      {/* 目标锁定标签 */}
+                      <div className="absolute -bottom-6 left-0 text-[10px] px-1 font-bold font-display text-black" style={{ backgroundColor: getThemeColor() }}>{faceBoxStyle ? 'TARGET_LOCKED' : 'NO TARGET'}</div>
+                    </div>
+                  ) : (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 opacity-60">
+                      {isTextChat ? <MessageSquare size={40} /> : <Mic size={40} />}
+                      <div className="text-xs font-display tracking-[0.3em]">{isTextChat ? 'TEXT CHAT' : 'AUDIO ONLY'}</div>
+                    </div>
+                  )}
+
+                  {/* 当前问题 */}
+                  {plan && currentQuestionIndex !== -1 && (
+                    <div className="absolute top-2 left-2 right-2 md:right-auto md:max-w-[70%] bg-black/80 border border-current/40 px-3 py-2 text-xs">
+                      <span className="font-display opacity-60 mr-2">Q{currentQuestionIndex + 1}/{plan.questions.length}</span>
+                      <span className="font-chinese font-bold">{plan.questions[currentQuestionIndex].text}</span>
+                    </div>
+                  )}
+
+                  {/* 视频推流统计 */}
+                  {videoStats && (
+                    <div className="absolute bottom-2 right-2 bg-black/70 px-2 py-1 text-[10px] font-mono tabular-nums opacity-80">
+                      TX {videoStats.framesSent} · {(videoStats.bytesPerSecond / 1024).toFixed(1)} KB/s · DROP {videoStats.framesDropped}
+                      {settings.video.motion && ` · SKIP ${videoStats.framesSkipped}`}
+                      {settings.video.adaptive && ` · Q ${Math.round(videoStats.quality * 100)}%`}
+                    </div>
+                  )}
 
                   {/* 危险时的红色闪烁 */}
                   {isDanger && <div className="absolute inset-0 glitch-effect bg-red-900/10 mix-blend-overlay"></div>}
                 </div>
               )}
 
+              {/* 基线校准：对照问题 */}
+              {status === SessionStatus.CALIBRATING && calibration && (
+                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black via-black/90 to-transparent p-4 pt-12">
+                  <div className="text-[10px] tracking-[0.3em] font-display text-[#ffaa00]">
+                    BASELINE CALIBRATION {calibration.index + 1}/{CALIBRATION_QUESTIONS.length}
+                  </div>
+                  <div className="mt-2 text-base md:text-lg font-chinese font-bold">{t(CALIBRATION_QUESTIONS[calibration.index].prompt)}</div>
+                  <div className="text-xs opacity-60 mt-1 font-chinese">
+                    {t('calibrationType')}: {t(CALIBRATION_QUESTIONS[calibration.index].expected === 'truth' ? 'expectedTruth' : 'expectedLie')} · {t('verdictsCollected')}: {calibration.samples[calibration.index].rates.length}
+                  </div>
+                  <div className="flex gap-2 mt-3">
+                    <Button onClick={advanceCalibration} className="flex-1 py-2 text-xs">
+                      {t(calibration.index + 1 >= CALIBRATION_QUESTIONS.length ? 'calibrationFinish' : 'calibrationNext')}
+                    </Button>
+                    <Button onClick={finishCalibration} variant="danger" className="py-2 text-xs">{t('calibrationSkip')}</Button>
+                  </div>
+                </div>
+              )}
+
               {/* 待机/连接/错误状态 */}
-              {status !== SessionStatus.ACTIVE && (
+              {status !== SessionStatus.ACTIVE && status !== SessionStatus.CALIBRATING && (
                 <div className="absolute inset-0 flex items-center justify-center flex-col bg-black/60 backdrop-blur-sm">
-                  {status === SessionStatus.ERROR ? (
+                  {replay ? (
+                    <>
+                      <Archive className="w-20 h-20 md:w-24 md:h-24 mb-4" strokeWidth={1} />
+                      <p className="tracking-[0.3em] text-sm font-display">{t('replayMode')}</p>
+                      <p className="text-sm mt-2 font-chinese">{sessionTitle(replay)}</p>
+                      <p className="text-xs mt-2 opacity-60 font-mono">{t('sessionStatsLine', { avg: replay.stats.avgProbability, max: replay.stats.maxProbability, count: replay.verdicts.length })}</p>
+                    </>
+                  ) : status === SessionStatus.ERROR ? (
                     <>
                       <ShieldAlert className="w-20 h-20 md:w-24 md:h-24 text-red-500 mb-4 animate-pulse" />
-                      <p className="tracking-[0.3em] text-red-500 font-bold font-display">CONNECTION LOST</p>
-                      <p className="text-xs text-red-400 mt-2 opacity-70">PLEASE RE-INITIALIZE SYSTEM</p>
+                      <p className="tracking-[0.3em] text-red-500 font-bold font-display">{ERROR_TITLES[sessionError?.kind ?? 'unknown']}</p>
+                      {sessionError ? (
+                        <>
+                          <p className="text-xs text-red-400 mt-2 max-w-sm text-center px-4">{t(sessionError.messageKey)}</p>
+                          {sessionError.closeCode !== undefined && (
+                            <p className="text-[10px] text-red-400/70 mt-1 font-mono">CLOSE {sessionError.closeCode}{sessionError.closeReason ? ` · ${sessionError.closeReason}` : ''}</p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-xs text-red-400 mt-2 opacity-70">PLEASE RE-INITIALIZE SYSTEM</p>
+                      )}
+                      <button onClick={copyDiagnostics}
+                              className="mt-4 px-3 py-1.5 border border-red-500/60 text-red-400 text-[10px] font-display tracking-wider flex items-center gap-2 hover:bg-red-500/10">
+                        <ClipboardCopy size={12} />
+                        {t(diagnosticsCopied ? 'diagnosticsCopied' : 'copyDiagnostics')}
+                      </button>
+                    </>
+                  ) : status === SessionStatus.RECONNECTING ? (
+                    <>
+                      <ScanLine className="w-20 h-20 md:w-24 md:h-24 animate-spin mb-4 text-[#ffaa00]" strokeWidth={1} />
+                      <p className="tracking-[0.3em] text-sm animate-pulse font-display text-[#ffaa00]">RECONNECTING ({reconnectAttempts}/{MAX_RECONNECT_ATTEMPTS})</p>
+                      <p className="text-xs text-[#ffaa00] mt-2 opacity-70">{t('reconnectPreserved')}</p>
                     </>
                   ) : status === SessionStatus.CONNECTING ? (
                     <>
@@ -494,6 +1269,8 @@ const App: React.FC = () => {
                     <>
                       <ScanLine className="w-20 h-20 md:w-24 md:h-24 animate-pulse mb-4" strokeWidth={1} />
                       <p className="tracking-[0.3em] text-sm animate-pulse font-display">AWAITING INPUT STREAM</p>
+                      {plan && <p className="text-xs mt-2 opacity-70 font-chinese">{t('planLoaded', { title: plan.title, count: plan.questions.length })}</p>}
+                      {planError && <p className="text-xs mt-2 text-[#ff003c]">{planError}</p>}
                     </>
                   )}
                 </div>
@@ -502,19 +1279,31 @@ const App: React.FC = () => {
               {/* 移动端: 悬浮欺骗率 */}
               {status === SessionStatus.ACTIVE && (
                 <div className="md:hidden absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black via-black/90 to-transparent p-4 pt-16">
+                  {/* 当前发言人切换 */}
+                  {multiSpeaker && (
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      {participants.map(participant => (
+                        <button key={participant.id} onClick={() => setActiveSpeaker(participant.id)}
+                                className={`px-2 py-1 border text-[10px] font-chinese ${participant.id === activeSpeakerId ? 'bg-current/20' : 'opacity-60'}`}
+                                style={{ borderColor: participant.color, color: participant.color }}>
+                          {participantLabel(participant, participants, settings.uiLocale)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   {/* 生物数据简要 */}
                   <div className="flex justify-between mb-3 text-[10px] opacity-70">
-                    <span className="flex items-center gap-1"><Activity size={10} /> BPM: {Math.round(biometrics.heartRate)}</span>
-                    <span className="flex items-center gap-1"><Cpu size={10} /> 压力: {Math.round(biometrics.stressLevel)}%</span>
+                    {hasVideo && <span className="flex items-center gap-1"><Activity size={10} /> BPM: {Math.round(biometrics.heartRate)}{biometrics.heartRateMeasured ? '' : ` (${t('simulatedTag')})`}</span>}
+                    <span className="flex items-center gap-1"><Cpu size={10} /> {t('stressShort')}: {Math.round(biometrics.stressLevel)}%</span>
                     <span className="flex items-center gap-1"><Clock size={10} /> {sessionStats.duration}</span>
                   </div>
 
                   <div className="flex items-end justify-between gap-3">
                     <div className="flex-1 min-w-0">
-                      <div className={`text-base font-chinese font-black tracking-wider ${isDanger ? 'animate-pulse text-[#ff003c]' : isSuspicious ? 'text-[#ffaa00]' : 'text-[#00f3ff]'}`}>
-                        {isDanger ? '【谎言确认】' : isSuspicious ? '【高度可疑】' : isTruth ? '【诚实】' : '【分析中】'}
+                      <div className={`text-base font-chinese font-black tracking-wider ${isDanger ? 'animate-pulse' : ''}`} style={{ color: getThemeColor() }}>
+                        {verdictFrame(getVerdictText('verdictAnalyzing'), settings.uiLocale, false)}
                       </div>
-                      <div className="text-xs opacity-70 mt-1 line-clamp-2 font-chinese leading-relaxed">{lastAnalysis}</div>
+                      <div className="text-xs opacity-70 mt-1 line-clamp-2 font-chinese leading-relaxed">{lastAnalysis ?? t('standby')}</div>
                     </div>
                     <div className={`text-5xl font-display font-black tracking-tighter ${isDanger ? 'glitch-effect' : ''}`}
                          style={{ color: getThemeColor(), textShadow: `0 0 25px ${getThemeColor()}, 0 0 50px ${getThemeColor()}40` }}>
@@ -527,42 +1316,115 @@ const App: React.FC = () => {
                          style={{ width: `${lieProbability}%`, background: `linear-gradient(90deg, transparent, ${getThemeColor()})`, boxShadow: `0 0 10px ${getThemeColor()}` }}></div>
                   </div>
                   <div className="flex justify-between text-[8px] opacity-40 mt-1 font-mono">
-                    <span>0</span><span>50</span><span>75</span><span>100</span>
+                    <span>0</span>{bands.slice(1).map(band => <span key={band.id}>{band.threshold}</span>)}<span>100</span>
                   </div>
                   {/* 音量条 */}
-                  <div className="flex items-center gap-2 mt-2">
+                  {hasAudio && <div className="flex items-center gap-2 mt-2">
                     <Mic size={12} className="opacity-50" />
                     <div className="flex-1 h-1.5 bg-black/50 rounded overflow-hidden">
                       <div className="h-full transition-all duration-75" style={{ width: `${Math.min(100, inputVolume * 2)}%`, backgroundColor: getThemeColor() }}></div>
                     </div>
                     <span className="text-[10px] font-mono opacity-50 tabular-nums">{Math.min(100, Math.round(inputVolume * 2))}%</span>
-                  </div>
+                  </div>}
                 </div>
               )}
             </div>
 
+            {/* 文字对话输入：回车发送，Shift+回车换行 */}
+            {isTextChat && isLive && !replay && (
+              <TextComposer onSend={sendStatements} pending={pendingStatements} splitLines={settings.textChat.splitLines}
+                            disabled={status !== SessionStatus.ACTIVE} />
+            )}
+
             {/* 按钮行 */}
             <div className="flex-none flex gap-2">
               {/* 移动端日志按钮 */}
-              {status === SessionStatus.ACTIVE && (
+              {(status === SessionStatus.ACTIVE || replay) && (
                 <button onClick={() => setMobileLogsOpen(true)}
                         className="md:hidden px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider"
                         style={{ borderColor: getThemeColor(), color: getThemeColor() }}>
                   <MessageSquare size={14} />
-                  <span>日志</span>
-                  {logs.length > 0 && (
-                    <span className="bg-current text-black px-1.5 py-0.5 text-[10px] font-bold">{logs.length}</span>
+                  <span>{t('logsButton')}</span>
+                  {viewTimeline.length > 0 && (
+                    <span className="bg-current text-black px-1.5 py-0.5 text-[10px] font-bold">{viewTimeline.length}</span>
                   )}
                 </button>
               )}
 
-              {status === SessionStatus.ACTIVE ? (
+              {(replay || (sessionMeta && timeline.length > 0)) && <ExportMenu onExport={exportSession} />}
+
+              {(replay || (sessionMeta && history.length > 0)) && (
+                <button onClick={() => setAnalyticsOpen(true)}
+                        className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+                  <BarChart3 size={14} />
+                  <span className="hidden sm:inline">{t('analyticsButton')}</span>
+                </button>
+              )}
+
+              {plan && status === SessionStatus.ACTIVE && !planFinished && (
+                <button onClick={nextQuestion}
+                        className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+                  <SkipForward size={14} />
+                  <span className="hidden sm:inline">
+                    {currentQuestionIndex === -1 ? t('startPlan') :
+                     currentQuestionIndex + 1 >= plan.questions.length ? t('endPlan') : t('nextQuestion', { index: currentQuestionIndex + 2, total: plan.questions.length })}
+                  </span>
+                </button>
+              )}
+
+              {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && !replay && (
+                <button onClick={() => planInputRef.current?.click()}
+                        className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider"
+                        title={planError ?? undefined}>
+                  <ListChecks size={14} className={planError ? 'text-[#ff003c]' : ''} />
+                  <span className="hidden sm:inline">{t(plan ? 'changePlan' : 'loadPlan')}</span>
+                </button>
+              )}
+              <input ref={planInputRef} type="file" accept=".json,.yaml,.yml,application/json" className="hidden" onChange={loadPlan} />
+
+              {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && (
+                <button onClick={() => setLibraryOpen(true)}
+                        className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+                  <Archive size={14} />
+                  <span className="hidden sm:inline">{t('archiveButton')}</span>
+                </button>
+              )}
+
+              {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && (
+                <button onClick={() => setBatchOpen(true)}
+                        className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+                  <FileText size={14} />
+                  <span className="hidden sm:inline">{t('batchButton')}</span>
+                </button>
+              )}
+
+              {((status === SessionStatus.IDLE || status === SessionStatus.ERROR) || (isLive && !mediaFileName)) && !replay && (
+                <button onClick={() => setDevicesOpen(true)}
+                        className={`px-4 py-3 border bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider ${sessionError?.kind.startsWith('media-') ? 'border-[#ff003c] text-[#ff003c]' : 'border-current/50'}`}>
+                  <Video size={14} />
+                  <span className="hidden sm:inline">{t('devicesButton')}</span>
+                </button>
+              )}
+
+              {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && !replay && (
+                <button onClick={() => setSettingsOpen(true)}
+                        className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+                  <Settings size={14} />
+                  <span className="hidden sm:inline">{t('settingsButton')}</span>
+                </button>
+              )}
+
+              {replay ? (
+                <Button onClick={() => setReplay(null)} className="flex-1 py-3 flex items-center justify-center gap-2">
+                  <X size={18} /> <span className="hidden sm:inline">{t('exitReplayPrefix')}</span>EXIT REPLAY
+                </Button>
+              ) : status === SessionStatus.ACTIVE || status === SessionStatus.RECONNECTING || status === SessionStatus.CALIBRATING ? (
                 <Button onClick={endSession} variant="danger" className="flex-1 py-3 flex items-center justify-center gap-2">
-                  <Power size={18} /> <span className="hidden sm:inline">中止连接 / </span>DISCONNECT
+                  <Power size={18} /> <span className="hidden sm:inline">{t('disconnectPrefix')}</span>DISCONNECT
                 </Button>
               ) : (
                 <Button onClick={startSession} className={`flex-1 py-3 flex items-center justify-center gap-2 ${status === SessionStatus.CONNECTING ? 'animate-pulse' : ''}`}>
-                  <Mic size={18} /> {status === SessionStatus.ERROR ? 'RETRY' : <><span className="hidden sm:inline">启动 / </span>INITIALIZE</>}
+                  <Mic size={18} /> {status === SessionStatus.ERROR ? 'RETRY' : <><span className="hidden sm:inline">{t('initializePrefix')}</span>INITIALIZE</>}
                 </Button>
               )}
             </div>
@@ -571,18 +1433,16 @@ const App: React.FC = () => {
           {/* 右侧面板 - 桌面端 */}
           <div className="hidden md:flex md:col-span-3 flex-col gap-3 min-h-0">
             {/* 欺骗率大面板 */}
-            <div className={`relative p-4 border-2 backdrop-blur-md transition-all duration-300 ${
-              isDanger ? 'border-[#ff003c] bg-[#ff003c]/10 shadow-[0_0_30px_rgba(255,0,60,0.3)]' :
-              isSuspicious ? 'border-[#ffaa00] bg-[#ffaa00]/10 shadow-[0_0_25px_rgba(255,170,0,0.2)]' :
-              'border-[#00f3ff] bg-[#00f3ff]/10 shadow-[0_0_20px_rgba(0,243,255,0.2)]'
-            }`}>
+            <div className="relative p-4 border-2 backdrop-blur-md transition-all duration-300"
+                 style={{ borderColor: getThemeColor(), backgroundColor: `${getThemeColor()}1a`, boxShadow: `0 0 ${isDanger ? 30 : 20}px ${getThemeColor()}4d` }}>
               <div className="flex flex-col items-center justify-center py-2">
-                <div className="text-sm opacity-70 mb-2 tracking-widest font-chinese">欺骗概率 / DECEPTION RATE</div>
+                <div className="text-sm opacity-70 mb-2 tracking-widest font-chinese">{t('deceptionRate')}</div>
+                {rateSpeaker && (
+                  <div className="text-xs -mt-1 mb-2 font-chinese font-bold" style={{ color: rateSpeaker.color }}>{participantLabel(rateSpeaker, participants, settings.uiLocale)}</div>
+                )}
 
                 <div className={`text-xl md:text-2xl font-black mb-2 font-chinese tracking-widest ${isDanger ? 'animate-pulse glitch-effect' : ''}`}>
-                  {isDanger ? '【 谎 言 确 认 】' :
-                   isSuspicious ? '【 高 度 可 疑 】' :
-                   isTruth ? '【 诚 实 】' : '【 待 机 】'}
+                  {verdictFrame(getVerdictText(), settings.uiLocale)}
                 </div>
 
                 <div className={`text-6xl lg:text-7xl font-display font-black tracking-tighter transition-all duration-300 ${isDanger ? 'glitch-effect' : ''}`}
@@ -593,34 +1453,52 @@ const App: React.FC = () => {
                 <div className="w-full h-4 bg-gray-900 mt-4 relative border border-gray-700 overflow-hidden">
                   <div className="h-full transition-all duration-500 ease-out"
                        style={{ width: `${lieProbability}%`, background: `linear-gradient(90deg, transparent, ${getThemeColor()})`, boxShadow: `0 0 10px ${getThemeColor()}` }}></div>
-                  <div className="absolute top-0 bottom-0 w-[1px] bg-white/30 left-[50%]"></div>
-                  <div className="absolute top-0 bottom-0 w-[1px] bg-white/30 left-[75%]"></div>
+                  {bands.slice(1).map(band => <div key={band.id} className="absolute top-0 bottom-0 w-[1px] bg-white/30" style={{ left: `${band.threshold}%` }}></div>)}
                 </div>
                 <div className="w-full flex justify-between text-[10px] mt-1 opacity-50 font-mono">
-                  <span>0%</span><span>50%</span><span>75%</span><span>100%</span>
+                  <span>0%</span>{bands.slice(1).map(band => <span key={band.id}>{band.threshold}%</span>)}<span>100%</span>
                 </div>
 
                 <div className="mt-4 font-chinese font-bold text-sm text-center min-h-[3rem] flex items-center justify-center border-t border-white/10 w-full pt-3 leading-relaxed opacity-90">
-                  {lastAnalysis}
+                  {lastAnalysis ?? t('standby')}
                 </div>
+
+                {/* 结构化判定：置信度与线索 */}
+                {lastVerdict && (
+                  <div className="w-full mt-2 text-[10px] font-mono">
+                    <div className="flex justify-between opacity-60 mb-1">
+                      <span>{t('confidence')}</span><span>{lastVerdict.confidence}%</span>
+                    </div>
+                    {lastVerdict.cues.length > 0 && (
+                      <div className="flex flex-wrap gap-1 justify-center">
+                        {lastVerdict.cues.map(cue => (
+                          <span key={cue} className="px-1.5 py-0.5 border border-current/40 font-chinese">{cue}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {lastVocal && !replay && <VocalFeaturesGrid features={lastVocal} />}
               </div>
             </div>
 
-            <Panel title="真实度趋势 / VERACITY_GRAPH" className="flex-1 min-h-[150px] flex flex-col" alert={isDanger}>
+            <Panel title={t('veracityGraph')} className="flex-1 min-h-[150px] flex flex-col" alert={isDanger}>
               <div className="flex-1 w-full mt-2 min-h-[100px]">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={history}>
+                  <LineChart data={viewHistory}>
                     <YAxis domain={[0, 100]} hide />
                     <XAxis hide />
                     <Tooltip
                       contentStyle={{ backgroundColor: '#000', borderColor: getThemeColor(), color: getThemeColor(), fontFamily: 'monospace' }}
                       itemStyle={{ color: getThemeColor() }}
-                      formatter={(value: number) => [`${value}%`, '欺骗率']}
+                      formatter={(value: number, name: string) => [`${value}%`, chartSubjects.length > 0 ? name : t('tooltipRate')]}
                       labelFormatter={() => ''}
                     />
-                    <ReferenceLine y={50} stroke="#ffaa00" strokeDasharray="3 3" opacity={0.5} />
-                    <ReferenceLine y={75} stroke="#ff003c" strokeDasharray="3 3" opacity={0.5} />
-                    <Line
+                    {viewThresholds.map(band => <ReferenceLine key={band.id} y={band.threshold} stroke={band.color} strokeDasharray="3 3" opacity={0.5} />)}
+                    {chartSubjects.map(p => <Line key={p.id} type="monotone" dataKey={`rates.${p.id}`} name={participantLabel(p, viewParticipants, settings.uiLocale)}
+                                                   stroke={p.color} strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />)}
+                    {chartSubjects.length === 0 && <Line
                       type="monotone"
                       dataKey="value"
                       stroke={getThemeColor()}
@@ -628,18 +1506,26 @@ const App: React.FC = () => {
                       dot={false}
                       isAnimationActive={true}
                       animationDuration={300}
-                    />
+                    />}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
               {/* 音频输入可视化 */}
-              <div className="h-6 mt-2 border-t border-white/10 pt-2 flex items-center gap-2">
+              {hasAudio && <div className="h-6 mt-2 border-t border-white/10 pt-2 flex items-center gap-2">
                 <Mic size={12} className="opacity-50" />
                 <div className="flex-1 h-2 bg-gray-900 overflow-hidden">
                   <div className="h-full bg-white transition-all duration-75" style={{ width: `${Math.min(100, inputVolume * 2)}%` }}></div>
                 </div>
                 <span className="text-[10px] font-mono opacity-50 w-8 text-right">MIC</span>
-              </div>
+              </div>}
+              {/* 模型语音音量，会话中可直接调节 */}
+              {isLive && settings.audioOutput.mode !== 'text' && <label className="h-6 mt-1 flex items-center gap-2" title={t('outputVolume')}>
+                {settings.audioOutput.volume > 0 ? <Volume2 size={12} className="opacity-50" /> : <VolumeX size={12} className="opacity-50" />}
+                <input type="range" min={0} max={1} step={0.05} value={settings.audioOutput.volume}
+                       onChange={e => updateSettings({ ...settings, audioOutput: { ...settings.audioOutput, volume: Number(e.target.value) } })}
+                       className="flex-1 h-1 accent-current" />
+                <span className="text-[10px] font-mono opacity-50 w-8 text-right">OUT</span>
+              </label>}
             </Panel>
           </div>
         </main>
@@ -659,6 +1545,7 @@ const App: React.FC = () => {
         }
       `}</style>
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { BarChart3, X } from 'lucide-react';
+import { ScoringBand, SessionArchive } from '../types';
+import { useI18n } from '../services/i18n';
+import { computeSessionAnalytics, DEFAULT_ROLLING_WINDOW, ROLLING_WINDOWS } from '../services/sessionAnalytics';
+import { bandLabel } from '../services/scoring';
+import { formatMediaTime } from '../services/mediaFile';
+import { ScoreHistogram } from './ScoreHistogram';
+
+interface AnalyticsPanelProps {
+  archive: Pick<SessionArchive, 'history' | 'verdicts' | 'stats'>;
+  bands: ScoringBand[];
+  onClose: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="border border-[#00f3ff]/20 px-3 py-2">
+    <div className="text-[10px] opacity-50">{label}</div>
+    <div className="text-lg font-bold font-mono tabular-nums">{value}</div>
+  </div>
+);
+
+/** Whole-session statistics: the untruncated trend, band dwell times, verdict distribution and cues. */
+export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ archive, bands, onClose }) => {
+  const { t, locale } = useI18n();
+  const [rollingWindow, setRollingWindow] = useState(DEFAULT_ROLLING_WINDOW);
+  const analytics = useMemo(() => computeSessionAnalytics(archive, bands, rollingWindow, locale), [archive, bands, rollingWindow, locale]);
+  const percent = (value: number | null) => value === null ? '-' : `${value}%`;
+  const maxCueCount = analytics.cues[0]?.count ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4">
+      <div className="border-2 border-[#00f3ff] bg-[#02040a] text-[#00f3ff] w-full max-w-4xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#00f3ff]/30">
+          <h2 className="flex items-center gap-2 font-bold tracking-widest"><BarChart3 size={18} /> {t('analyticsTitle')}</h2>
+          <button onClick={onClose} className="p-1"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar text-xs">
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            <Stat label={t('analyticsDuration')} value={formatMediaTime(archive.stats.durationMs / 1000)} />
+            <Stat label={t('analyticsVerdicts')} value={archive.verdicts.length} />
+            <Stat label={t('analyticsAvg')} value={percent(analytics.avg)} />
+            <Stat label={t('analyticsMin')} value={percent(analytics.min)} />
+            <Stat label={t('analyticsMax')} value={percent(analytics.max)} />
+            <Stat label={t('analyticsTransitions')} value={analytics.transitions} />
+          </div>
+
+          <div className="border border-[#00f3ff]/20 p-2">
+            <div className="flex items-center justify-between mb-1">
+              <span className="opacity-60">{t('analyticsTimeline')}</span>
+              <label className="flex items-center gap-2">
+                <span className="opacity-60">{t('analyticsRolling')}</span>
+                <select value={rollingWindow} onChange={e => setRollingWindow(Number(e.target.value))} className="bg-[#02040a] border border-[#00f3ff]/50 px-1 py-0.5">
+                  {ROLLING_WINDOWS.map(size => <option key={size} value={size}>{t('analyticsWindow', { count: size })}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="h-48">
+              {analytics.points.length === 0
+                ? <div className="h-full flex items-center justify-center opacity-30">{t('analyticsEmpty')}</div>
+                : <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={analytics.points}>
+                      <XAxis dataKey="elapsed" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatMediaTime}
+                             tick={{ fontSize: 9, fill: '#00f3ff' }} stroke="#00f3ff55" />
+                      <YAxis domain={[0, 100]} width={24} tick={{ fontSize: 9, fill: '#00f3ff' }} stroke="#00f3ff55" />
+                      <Tooltip contentStyle={{ backgroundColor: '#000', borderColor: '#00f3ff', fontSize: 10, fontFamily: 'monospace' }}
+                               labelFormatter={(elapsed: number) => formatMediaTime(elapsed)}
+                               formatter={(value: number, name: string) => [`${value}%`, name === 'rolling' ? t('analyticsRolling') : t('tooltipRate')]} />
+                      {bands.slice(1).map(band => <ReferenceLine key={band.id} y={band.threshold} stroke={band.color} strokeDasharray="3 3" opacity={0.5} />)}
+                      <Line type="monotone" dataKey="value" stroke="#00f3ff" strokeOpacity={0.35} strokeWidth={1} dot={false} isAnimationActive={false} />
+                      <Line type="monotone" dataKey="rolling" stroke="#ffffff" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            <div className="border border-[#00f3ff]/20 p-2 space-y-2">
+              <div className="opacity-60">{t('analyticsBandTime')}</div>
+              <div className="flex h-3 w-full bg-black/50 overflow-hidden">
+                {analytics.bandTimes.map(({ band, share }) => share > 0 && <div key={band.id} style={{ width: `${share * 100}%`, backgroundColor: band.color }} />)}
+              </div>
+              {analytics.bandTimes.map(({ band, ms, share }) => (
+                <div key={band.id} className="flex items-center justify-between gap-2 pl-2 border-l-2" style={{ borderColor: band.color }}>
+                  <span style={{ color: band.color }}>{bandLabel(band, locale)}</span>
+                  <span className="font-mono tabular-nums opacity-80">{formatMediaTime(ms / 1000)} · {Math.round(share * 100)}%</span>
+                </div>
+              ))}
+            </div>
+            <div className="border border-[#00f3ff]/20 p-2">
+              <div className="opacity-60 mb-1">{t('analyticsHistogram')}</div>
+              <div className="h-32">
+                <ScoreHistogram histogram={analytics.histogram} bands={bands} />
+              </div>
+            </div>
+          </div>
+
+          <div className="border border-[#00f3ff]/20 p-2 space-y-1">
+            <div className="opacity-60">{t('analyticsCues')}</div>
+            {analytics.cues.length === 0 && <div className="opacity-30 py-2">{t('analyticsNoCues')}</div>}
+            {analytics.cues.map(cue => (
+              <div key={cue.id} className="flex items-center gap-2">
+                <span className="w-24 shrink-0 font-chinese truncate">{cue.label}</span>
+                <div className="flex-1 h-2 bg-black/50 overflow-hidden">
+                  <div className="h-full bg-[#00f3ff]" style={{ width: `${(cue.count / maxCueCount) * 100}%` }} />
+                </div>
+                <span className="w-8 text-right font-mono tabular-nums">{cue.count}</span>
+                <span className="w-20 text-right font-mono opacity-60">{t('analyticsCueAvg', { rate: cue.avgRate })}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Eye, FileText, Play, Save, Square, Upload, X } from 'lucide-react';
+import { ParticipantRole, SessionArchive } from '../types';
+import { MessageKey, useI18n } from '../services/i18n';
+import { AppSettings } from '../services/settings';
+import { ProviderId } from '../services/analysisProvider';
+import { analyzeTranscript, BatchResult, batchToArchive, createGeminiScorer, createMockScorer, mostSuspicious, summarizeBatch } from '../services/batchAnalysis';
+import { detectTranscriptFormat, parseTranscript, participantsFromTranscript, TranscriptError, TranscriptFormat } from '../services/transcriptImport';
+import { findParticipant, participantLabel } from '../services/participants';
+import { bandFor } from '../services/scoring';
+import { downloadArchive } from '../services/sessionArchive';
+import { saveSession } from '../services/sessionStore';
+import { toSessionError } from '../services/sessionErrors';
+import { formatMediaTime } from '../services/mediaFile';
+import { GENERATE_MODEL } from '../services/textChat';
+import { ExportMenu } from './ExportMenu';
+import { ScoreHistogram } from './ScoreHistogram';
+
+const FORMATS: { id: TranscriptFormat; label: MessageKey }[] = [
+  { id: 'text', label: 'formatText' },
+  { id: 'srt', label: 'formatSrt' },
+  { id: 'json', label: 'formatJson' },
+];
+
+type SortKey = 'index' | 'speaker' | 'rate';
+
+interface BatchAnalysisPanelProps {
+  providerId: ProviderId;
+  settings: AppSettings;
+  onClose: () => void;
+  // Shows the finished run in the main view, like a replayed session
+  onOpen: (archive: SessionArchive) => void;
+}
+
+export const BatchAnalysisPanel: React.FC<BatchAnalysisPanelProps> = ({ providerId, settings, onClose, onOpen }) => {
+  const { t, locale } = useI18n();
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<TranscriptFormat>('text');
+  // Role changes by speaker name; detection only guesses who asks the questions
+  const [roles, setRoles] = useState<Record<string, ParticipantRole>>({});
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [archive, setArchive] = useState<SessionArchive | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'index', desc: false });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const parsed = useMemo(() => {
+    if (!content.trim()) return { statements: [], error: null };
+    try {
+      return { statements: parseTranscript(content, format), error: null };
+    } catch (e) {
+      const reason = e instanceof TranscriptError ? t(e.key, e.params) : e instanceof Error ? e.message : String(e);
+      return { statements: [], error: t('batchParseFailed', { error: reason }) };
+    }
+  }, [content, format, t]);
+
+  const participants = useMemo(
+    () => participantsFromTranscript(parsed.statements).map(p => ({ ...p, role: roles[p.name] ?? p.role })),
+    [parsed.statements, roles],
+  );
+  const summary = useMemo(() => summarizeBatch(results), [results]);
+  const suspicious = useMemo(() => mostSuspicious(results), [results]);
+  const bands = settings.prompt.bands;
+
+  const speakerLabel = (speakerId?: string) => {
+    const speaker = findParticipant(participants, speakerId);
+    return speaker ? participantLabel(speaker, participants, locale) : t('speakerSubject');
+  };
+
+  const sorted = useMemo(() => {
+    const value = (r: BatchResult) => sort.key === 'rate' ? r.rate ?? -1 : sort.key === 'speaker' ? r.statement.speaker ?? '' : r.index;
+    const ordered = [...results].sort((a, b) => {
+      const va = value(a), vb = value(b);
+      return va < vb ? -1 : va > vb ? 1 : a.index - b.index;
+    });
+    return sort.desc ? ordered.reverse() : ordered;
+  }, [results, sort]);
+
+  const load = (text: string, name: string | null) => {
+    setContent(text);
+    setFileName(name);
+    setFormat(detectTranscriptFormat(text, name ?? ''));
+  };
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    load(await file.text(), file.name);
+    setRoles({});
+  };
+
+  const run = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startedAt = Date.now();
+    const done: BatchResult[] = [];
+    setRunning(true);
+    setResults([]);
+    setArchive(null);
+    setSaved(false);
+    setError(null);
+    try {
+      const scorer = providerId === 'mock'
+        ? createMockScorer(settings.prompt.language)
+        : await createGeminiScorer(settings.credentials, settings.prompt, participants);
+      await analyzeTranscript(parsed.statements, participants, scorer, {
+        language: settings.prompt.language,
+        signal: controller.signal,
+        onResult: result => {
+          done.push(result);
+          setResults([...done]);
+        },
+      });
+    } catch (e) {
+      const sessionError = toSessionError(e);
+      setError(t('batchFailed', { error: t(sessionError.messageKey) }));
+    }
+    // Stopped or failed runs still keep what was scored so far
+    if (done.length > 0) {
+      setArchive(batchToArchive(done, {
+        startedAt,
+        model: providerId === 'mock' ? 'mock-batch' : GENERATE_MODEL,
+        bands,
+        participants,
+        source: fileName ?? undefined,
+        locale,
+      }));
+    }
+    abortRef.current = null;
+    setRunning(false);
+  };
+
+  const save = async () => {
+    if (!archive) return;
+    try {
+      await saveSession(archive);
+      setSaved(true);
+    } catch (e) {
+      setError(t('batchSaveFailed', { error: e instanceof Error ? e.message : String(e) }));
+    }
+  };
+
+  const toggleSort = (key: SortKey) => setSort(prev => ({ key, desc: prev.key === key ? !prev.desc : key === 'rate' }));
+
+  const sortHeader = (key: SortKey, label: string, className = '') => (
+    <th className={`px-2 py-1 font-normal cursor-pointer select-none ${className}`} onClick={() => toggleSort(key)}>
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sort.key === key && (sort.desc ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4">
+      <div className="border-2 border-[#00f3ff] bg-[#02040a] text-[#00f3ff] w-full max-w-4xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#00f3ff]/30">
+          <h2 className="flex items-center gap-2 font-bold tracking-widest"><FileText size={18} /> {t('batchTitle')}</h2>
+          <button onClick={() => { abortRef.current?.abort(); onClose(); }} className="p-1"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar text-xs">
+          <textarea value={content} rows={6} disabled={running} placeholder={t('batchPlaceholder')}
+                    onChange={e => load(e.target.value, fileName)}
+                    className="w-full resize-y bg-transparent border border-[#00f3ff]/40 p-2 font-mono outline-none placeholder:text-[#00f3ff]/30" />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} disabled={running}
+                    className="px-3 py-2 border border-[#00f3ff]/40 flex items-center gap-2 font-display tracking-wider disabled:opacity-30">
+              <Upload size={14} /> {t('batchOpenFile')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".txt,.srt,.json,text/plain,application/json" className="hidden" onChange={openFile} />
+            {fileName && <span className="truncate max-w-[12rem] opacity-70" title={fileName}>{fileName}</span>}
+            <label className="flex items-center gap-2 ml-auto">
+              <span className="opacity-70">{t('batchFormat')}</span>
+              <select value={format} disabled={running} onChange={e => setFormat(e.target.value as TranscriptFormat)}
+                      className="bg-[#02040a] border border-[#00f3ff]/50 px-2 py-1">
+                {FORMATS.map(f => <option key={f.id} value={f.id}>{t(f.label)}</option>)}
+              </select>
+            </label>
+            {parsed.statements.length > 0 && <span className="opacity-70">{t('batchStatements', { count: parsed.statements.length })}</span>}
+            {running
+              ? <button onClick={() => abortRef.current?.abort()} className="px-3 py-2 border border-[#ff003c] text-[#ff003c] flex items-center gap-2 font-display tracking-wider">
+                  <Square size={14} /> {t('batchStop')}
+                </button>
+              : <button onClick={run} disabled={parsed.statements.length === 0}
+                        className="px-3 py-2 border border-[#00f3ff] flex items-center gap-2 font-display tracking-wider disabled:opacity-30">
+                  <Play size={14} /> {t('batchRun')}
+                </button>}
+          </div>
+
+          {parsed.error && <div className="text-[#ff003c]">{parsed.error}</div>}
+          {providerId === 'mock' && <div className="opacity-50">{t('batchOfflineNote')}</div>}
+
+          {participants.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {participants.map(p => (
+                <label key={p.id} className="flex items-center gap-2 pl-2 border-l-2" style={{ borderColor: p.color }}>
+                  <span className="truncate max-w-[8rem]">{p.name}</span>
+                  <select value={p.role} disabled={running} onChange={e => setRoles(prev => ({ ...prev, [p.name]: e.target.value as ParticipantRole }))}
+                          className="bg-[#02040a] border border-[#00f3ff]/50 px-1 py-0.5">
+                    <option value="subject">{t('roleSubject')}</option>
+                    <option value="interviewer">{t('roleInterviewer')}</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {error && <div className="text-[#ff003c]">{error}</div>}
+
+          {results.length > 0 && (
+            <>
+              <div className="font-mono opacity-80">
+                {running && <span className="animate-pulse mr-2">{t('batchProgress', { done: results.length, total: parsed.statements.length })}</span>}
+                {t('batchSummary', { scored: summary.scoredCount, avg: summary.avgRate ?? '-', max: summary.maxRate ?? '-', failed: summary.failedCount })}
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-3">
+                <div className="border border-[#00f3ff]/20 p-2">
+                  <div className="opacity-60 mb-1">{t('batchDistribution')}</div>
+                  <div className="h-32">
+                    <ScoreHistogram histogram={summary.histogram} bands={bands} />
+                  </div>
+                </div>
+                <div className="border border-[#00f3ff]/20 p-2 space-y-1">
+                  <div className="opacity-60">{t('batchSuspicious')}</div>
+                  {suspicious.map(r => (
+                    <div key={r.index} className="pl-2 border-l-2" style={{ borderColor: bandFor(r.rate!, bands).color }}>
+                      <span className="font-bold tabular-nums mr-2" style={{ color: bandFor(r.rate!, bands).color }}>{r.rate}%</span>
+                      <span className="opacity-60 mr-1">#{r.index + 1} {speakerLabel(r.speakerId)}:</span>
+                      <span className="font-chinese">{r.statement.text}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <table className="w-full text-left border-collapse">
+                <thead className="opacity-60 border-b border-[#00f3ff]/30">
+                  <tr>
+                    {sortHeader('index', '#', 'w-10')}
+                    {sortHeader('speaker', t('batchColSpeaker'), 'w-24')}
+                    <th className="px-2 py-1 font-normal">{t('batchColStatement')}</th>
+                    {sortHeader('rate', t('batchColRate'), 'w-20 text-right')}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sorted.map(r => (
+                    <tr key={r.index} className="border-b border-[#00f3ff]/10 align-top">
+                      <td className="px-2 py-1 font-mono opacity-60">
+                        {r.index + 1}
+                        {r.statement.mediaTime !== undefined && <div className="text-[10px]">{formatMediaTime(r.statement.mediaTime)}</div>}
+                      </td>
+                      <td className="px-2 py-1" style={{ color: findParticipant(participants, r.speakerId)?.color }}>{speakerLabel(r.speakerId)}</td>
+                      <td className="px-2 py-1 font-chinese">
+                        {r.statement.text}
+                        {(r.verdict?.reasoning || r.error) && <div className={`opacity-60 ${r.error ? 'text-[#ff003c]' : ''}`}>» {r.error ? t(r.error.messageKey) : r.verdict!.reasoning}</div>}
+                      </td>
+                      <td className="px-2 py-1 text-right font-bold tabular-nums" style={{ color: r.rate !== undefined ? bandFor(r.rate, bands).color : undefined }}>
+                        {r.rate !== undefined ? `${r.rate}%` : r.scored ? '-' : <span className="font-normal opacity-50">{t('notScored')}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {archive && !running && (
+          <div className="flex gap-2 px-4 py-3 border-t border-[#00f3ff]/30">
+            <ExportMenu onExport={exportFormat => downloadArchive(archive, exportFormat)} />
+            <button onClick={save} disabled={saved}
+                    className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider disabled:opacity-50">
+              {saved ? <Check size={14} /> : <Save size={14} />} {t(saved ? 'batchSaved' : 'batchSave')}
+            </button>
+            <button onClick={() => onOpen(archive)}
+                    className="px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+              <Eye size={14} /> {t('batchOpen')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
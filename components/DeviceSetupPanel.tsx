@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Mic, RefreshCw, Video, X } from 'lucide-react';
+import { MessageKey, useI18n } from '../services/i18n';
+import { AudioCapture } from '../services/audioCapture';
+import { DeviceSelection, listMediaDevices, MediaDeviceError, MediaDeviceList, openMediaStream } from '../services/mediaDevices';
+
+const selectClass = 'bg-[#02040a] border border-[#00f3ff]/50 text-[#00f3ff] px-2 py-1 w-full min-w-0';
+
+const errorKey = (err: unknown): MessageKey => err instanceof MediaDeviceError ? err.key : 'mediaErrorUnknown';
+
+interface DeviceSetupPanelProps {
+  selection: DeviceSelection;
+  onSelect: (selection: DeviceSelection) => void;
+  // Stream of the running session; when set, changes switch its tracks instead of opening a preview
+  liveStream: MediaStream | null;
+  // Mic level (0-100) reported by the running session
+  liveLevel: number;
+  onSwitch: (kind: 'audio' | 'video', deviceId: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+export const DeviceSetupPanel: React.FC<DeviceSetupPanelProps> = ({ selection, onSelect, liveStream, liveLevel, onSwitch, onClose }) => {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<MediaDeviceList>({ cameras: [], microphones: [] });
+  const [cameraError, setCameraError] = useState<MessageKey | null>(null);
+  const [micError, setMicError] = useState<MessageKey | null>(null);
+  const [previewLevel, setPreviewLevel] = useState(0);
+  const [switching, setSwitching] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const refresh = () => listMediaDevices().then(setDevices).catch(err => setCameraError(errorKey(err)));
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  // 会话进行中直接预览会话的流，否则按当前选择单独打开摄像头和麦克风，互不影响
+  useEffect(() => {
+    if (liveStream) {
+      if (videoRef.current) videoRef.current.srcObject = liveStream;
+      return;
+    }
+    let cancelled = false;
+    const streams: MediaStream[] = [];
+    // 关闭面板或切换设备后才打开成功的流立即释放
+    const keep = (stream: MediaStream) => {
+      if (cancelled) stream.getTracks().forEach(track => track.stop());
+      else streams.push(stream);
+      return !cancelled;
+    };
+    const capture = new AudioCapture(chunk => setPreviewLevel(chunk.rms * 100));
+
+    openMediaStream(selection, true, false).then(stream => {
+      if (!keep(stream)) return;
+      setCameraError(null);
+      if (videoRef.current) videoRef.current.srcObject = stream;
+      refresh();
+    }).catch(err => !cancelled && setCameraError(errorKey(err)));
+
+    openMediaStream(selection, false, true).then(async stream => {
+      if (!keep(stream)) return;
+      setMicError(null);
+      await capture.start(stream);
+      refresh();
+    }).catch(err => !cancelled && setMicError(errorKey(err)));
+
+    return () => {
+      cancelled = true;
+      capture.stop();
+      streams.forEach(s => s.getTracks().forEach(track => track.stop()));
+      setPreviewLevel(0);
+    };
+  }, [liveStream, selection.cameraId, selection.microphoneId]);
+
+  const select = async (kind: 'audio' | 'video', deviceId: string | null) => {
+    if (liveStream) {
+      setSwitching(true);
+      try {
+        await onSwitch(kind, deviceId);
+        kind === 'audio' ? setMicError(null) : setCameraError(null);
+      } catch (err) {
+        // 切换失败时保留原设备，不更新选择
+        kind === 'audio' ? setMicError(errorKey(err)) : setCameraError(errorKey(err));
+        return;
+      } finally {
+        setSwitching(false);
+      }
+    }
+    onSelect(kind === 'audio' ? { ...selection, microphoneId: deviceId } : { ...selection, cameraId: deviceId });
+  };
+
+  const level = Math.min(100, Math.round((liveStream ? liveLevel : previewLevel) * 2));
+
+  const errorLine = (key: MessageKey | null) => key && (
+    <div className="flex items-start gap-2 text-[11px] text-[#ff003c] mt-1"><AlertTriangle size={12} className="flex-none mt-0.5" /> {t(key)}</div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4">
+      <div className="border-2 border-[#00f3ff] bg-[#02040a] text-[#00f3ff] w-full max-w-md max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#00f3ff]/30">
+          <h2 className="flex items-center gap-2 font-bold tracking-widest"><Video size={18} /> {t('devicesTitle')}</h2>
+          <div className="flex items-center gap-1">
+            <button onClick={refresh} className="p-1" title={t('devicesRefresh')}><RefreshCw size={16} /></button>
+            <button onClick={onClose} className="p-1"><X size={20} /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4 text-xs custom-scrollbar">
+          <div>
+            <div className="relative aspect-video bg-black border border-[#00f3ff]/30 mb-2">
+              <video ref={videoRef} autoPlay muted playsInline className="absolute inset-0 w-full h-full object-cover" />
+              {cameraError && <div className="absolute inset-0 flex items-center justify-center opacity-40"><Video size={32} /></div>}
+            </div>
+            <label className="flex items-center gap-2">
+              <Video size={14} className="flex-none opacity-70" />
+              <select value={selection.cameraId ?? ''} disabled={switching} onChange={e => select('video', e.target.value || null)} className={selectClass}>
+                <option value="">{t('defaultDevice')}</option>
+                {devices.cameras.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `${t('camera')} ${i + 1}`}</option>)}
+              </select>
+            </label>
+            {errorLine(cameraError)}
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2">
+              <Mic size={14} className="flex-none opacity-70" />
+              <select value={selection.microphoneId ?? ''} disabled={switching} onChange={e => select('audio', e.target.value || null)} className={selectClass}>
+                <option value="">{t('defaultDevice')}</option>
+                {devices.microphones.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `${t('microphone')} ${i + 1}`}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-2 mt-2">
+              <span className="opacity-60 w-16">{t('micLevel')}</span>
+              <div className="flex-1 h-2 bg-gray-900 overflow-hidden">
+                <div className="h-full bg-[#00f3ff] transition-all duration-75" style={{ width: `${level}%` }}></div>
+              </div>
+              <span className="font-mono opacity-60 w-8 text-right tabular-nums">{level}%</span>
+            </div>
+            {errorLine(micError)}
+          </div>
+        </div>
+
+        <div className="px-4 py-3 text-[10px] opacity-50 border-t border-[#00f3ff]/20">{t(liveStream ? 'devicesLiveNote' : 'devicesNote')}</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../services/sessionArchive';
+import { MessageKey, useI18n } from '../services/i18n';
+
+const FORMATS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: 'json', label: 'exportJson' },
+  { format: 'csv', label: 'exportCsv' },
+  { format: 'md', label: 'exportMarkdown' },
+  { format: 'html', label: 'exportHtml' },
+];
+
+export const ExportMenu: React.FC<{ onExport: (format: ExportFormat) => void }> = ({ onExport }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)}
+              className="h-full px-4 py-3 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider">
+        <Download size={14} />
+        <span className="hidden sm:inline">{t('exportButton')}</span>
+      </button>
+      {open && (
+        <div className="absolute bottom-full left-0 mb-2 z-40 min-w-[180px] border border-current bg-[#02040a] flex flex-col">
+          {FORMATS.map(({ format, label }) => (
+            <button key={format}
+                    onClick={() => { setOpen(false); onExport(format); }}
+                    className="px-4 py-2 text-left text-xs font-display tracking-wider hover:bg-current/20 border-b border-current/20 last:border-b-0">
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
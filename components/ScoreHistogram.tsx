@@ -0,0 +1,22 @@
+import React from 'react';
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ScoringBand } from '../types';
+import { bandFor } from '../services/scoring';
+
+/** Verdict counts per rate bin, each bar in the color of the band its midpoint falls into. */
+export const ScoreHistogram: React.FC<{ histogram: number[]; bands: ScoringBand[] }> = ({ histogram, bands }) => {
+  const width = 100 / histogram.length;
+  const data = histogram.map((count, i) => ({ range: `${i * width}%`, count, color: bandFor(i * width + width / 2, bands).color }));
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data}>
+        <XAxis dataKey="range" tick={{ fontSize: 9, fill: '#00f3ff' }} stroke="#00f3ff55" />
+        <YAxis allowDecimals={false} width={24} tick={{ fontSize: 9, fill: '#00f3ff' }} stroke="#00f3ff55" />
+        <Tooltip contentStyle={{ backgroundColor: '#000', borderColor: '#00f3ff', fontSize: 10 }} cursor={{ fill: '#00f3ff11' }} />
+        <Bar dataKey="count" isAnimationActive={false}>
+          {data.map(bin => <Cell key={bin.range} fill={bin.color} />)}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
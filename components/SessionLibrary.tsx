@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Archive, Check, Pencil, Play, Search, Trash2, Upload, X } from 'lucide-react';
+import { SessionArchive } from '../types';
+import { deleteSession, listSessions, matchesSessionQuery, renameSession, saveSession, sessionTitle } from '../services/sessionStore';
+import { parseSessionArchive } from '../services/sessionArchive';
+import { useI18n } from '../services/i18n';
+
+const formatDuration = (ms: number) => {
+  const elapsed = Math.floor(ms / 1000);
+  return `${Math.floor(elapsed / 60).toString().padStart(2, '0')}:${(elapsed % 60).toString().padStart(2, '0')}`;
+};
+
+export const SessionLibrary: React.FC<{ onClose: () => void; onOpen: (archive: SessionArchive) => void }> = ({ onClose, onOpen }) => {
+  const { t } = useI18n();
+  const [sessions, setSessions] = useState<SessionArchive[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listSessions().then(setSessions).catch(e => setError(t('libraryLoadFailed', { error: e instanceof Error ? e.message : String(e) })));
+
+  useEffect(() => { refresh(); }, []);
+
+  const filtered = useMemo(() => sessions.filter(s => matchesSessionQuery(s, query)), [sessions, query]);
+
+  const commitRename = async (id: string) => {
+    try {
+      await renameSession(id, editTitle);
+      setEditingId(null);
+      setError(null);
+      refresh();
+    } catch (err) {
+      setError(t('libraryRenameFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const confirmDelete = async (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    setPendingDeleteId(null);
+    try {
+      await deleteSession(id);
+      setError(null);
+      refresh();
+    } catch (err) {
+      setError(t('libraryDeleteFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await saveSession(parseSessionArchive(await file.text()));
+      setError(null);
+      refresh();
+    } catch (err) {
+      setError(t('libraryImportFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4">
+      <div className="border-2 border-[#00f3ff] bg-[#02040a] text-[#00f3ff] w-full max-w-2xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#00f3ff]/30">
+          <h2 className="flex items-center gap-2 font-bold tracking-widest"><Archive size={18} /> {t('libraryTitle')}</h2>
+          <button onClick={onClose} className="p-1"><X size={20} /></button>
+        </div>
+
+        <div className="flex gap-2 px-4 py-3 border-b border-[#00f3ff]/20">
+          <div className="flex-1 flex items-center gap-2 border border-[#00f3ff]/40 px-2">
+            <Search size={14} className="opacity-50" />
+            <input value={query} onChange={e => setQuery(e.target.value)} placeholder={t('librarySearch')}
+                   className="flex-1 bg-transparent py-2 text-xs outline-none placeholder:text-[#00f3ff]/30" />
+          </div>
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 border border-[#00f3ff]/40 flex items-center gap-2 text-xs font-display tracking-wider">
+            <Upload size={14} /> <span className="hidden sm:inline">{t('libraryImport')}</span>
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importFile} />
+        </div>
+
+        {error && <div className="px-4 py-2 text-xs text-[#ff003c] border-b border-[#ff003c]/30">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+          {filtered.length === 0 && <div className="text-center text-xs opacity-30 py-10">{t('libraryEmpty')}</div>}
+          {filtered.map(session => (
+            <div key={session.id} className="border-l-2 border-[#00f3ff]/60 bg-[#00f3ff]/5 p-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                {editingId === session.id ? (
+                  <input autoFocus value={editTitle} onChange={e => setEditTitle(e.target.value)}
+                         onKeyDown={e => { if (e.key === 'Enter') commitRename(session.id); if (e.key === 'Escape') setEditingId(null); }}
+                         className="w-full bg-transparent border-b border-[#00f3ff] text-sm outline-none" />
+                ) : (
+                  <div className="text-sm font-bold truncate">{sessionTitle(session)}</div>
+                )}
+                <div className="text-[10px] opacity-50 font-mono mt-1">
+                  {formatDuration(session.stats.durationMs)} · {t('sessionStatsLine', { avg: session.stats.avgProbability, max: session.stats.maxProbability, count: session.verdicts.length })}
+                </div>
+              </div>
+              {editingId === session.id ? (
+                <button onClick={() => commitRename(session.id)} className="p-2" title={t('librarySave')}><Check size={16} /></button>
+              ) : (
+                <button onClick={() => { setEditingId(session.id); setEditTitle(session.title ?? ''); }} className="p-2 opacity-70 hover:opacity-100" title={t('libraryRename')}><Pencil size={16} /></button>
+              )}
+              <button onClick={() => confirmDelete(session.id)}
+                      className={`p-2 ${pendingDeleteId === session.id ? 'text-[#ff003c] animate-pulse' : 'opacity-70 hover:opacity-100'}`}
+                      title={pendingDeleteId === session.id ? t('libraryConfirmDelete') : t('libraryDelete')}>
+                <Trash2 size={16} />
+              </button>
+              <button onClick={() => onOpen(session)} className="p-2 border border-[#00f3ff]/50 hover:bg-[#00f3ff]/20" title={t('libraryReplay')}><Play size={16} /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
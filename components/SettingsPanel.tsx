@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { KeyRound, Plus, RotateCcw, Settings, Trash2, Users, X } from 'lucide-react';
+import { Participant, ParticipantRole, ScoringBand } from '../types';
+import { Locale, LOCALES, MessageKey, useI18n } from '../services/i18n';
+import { AppSettings } from '../services/settings';
+import { AudioOutputSettings, OUTPUT_VOICES, OutputMode } from '../services/audioOutput';
+import { clearApiKey, CredentialMode, CredentialSettings, loadApiKey, maskApiKey, saveApiKey } from '../services/credentials';
+import { PERSONAS, PersonaId, PromptSettings, Strictness } from '../services/promptTemplate';
+import { TextChatSettings, TextTransport } from '../services/textChat';
+import { MAX_PARTICIPANTS, newParticipant } from '../services/participants';
+import { DEFAULT_BANDS, normalizeBands } from '../services/scoring';
+import { matchVideoPreset, VIDEO_FPS_OPTIONS, VIDEO_PRESETS, VIDEO_QUALITY_OPTIONS, VIDEO_RESOLUTIONS, VideoPresetId, VideoResolution, VideoStreamSettings } from '../services/videoStreamer';
+
+const STRICTNESS: { id: Strictness; label: MessageKey }[] = [
+  { id: 'lenient', label: 'strictnessLenient' },
+  { id: 'standard', label: 'strictnessStandard' },
+  { id: 'strict', label: 'strictnessStrict' },
+];
+
+const PRESETS: { id: VideoPresetId; label: MessageKey }[] = [
+  { id: 'saver', label: 'presetSaver' },
+  { id: 'balanced', label: 'presetBalanced' },
+  { id: 'detail', label: 'presetDetail' },
+];
+
+const OUTPUT_MODES: { id: OutputMode; label: MessageKey }[] = [
+  { id: 'spoken', label: 'outputSpoken' },
+  { id: 'ducked', label: 'outputDucked' },
+  { id: 'text', label: 'outputText' },
+];
+
+const TEXT_TRANSPORTS: { id: TextTransport; label: MessageKey }[] = [
+  { id: 'live', label: 'transportLive' },
+  { id: 'generate', label: 'transportGenerate' },
+];
+
+const CREDENTIAL_MODES: { id: CredentialMode; label: MessageKey }[] = [
+  { id: 'api-key', label: 'credentialApiKey' },
+  { id: 'token-proxy', label: 'credentialProxy' },
+];
+
+const selectClass = 'bg-[#02040a] border border-[#00f3ff]/50 text-[#00f3ff] px-2 py-1';
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex items-center justify-between gap-3 text-xs py-2 border-b border-[#00f3ff]/10">
+    <span className="opacity-70">{label}</span>
+    {children}
+  </label>
+);
+
+export const SettingsPanel: React.FC<{ settings: AppSettings; onChange: (settings: AppSettings) => void; onClose: () => void }> = ({ settings, onChange, onClose }) => {
+  const { t, locale } = useI18n();
+  const { prompt, video, credentials, audioOutput, textChat, participants } = settings;
+  // 密钥不进入设置对象，只存在本标签页的 sessionStorage
+  const [storedKey, setStoredKey] = useState(loadApiKey);
+  const [keyDraft, setKeyDraft] = useState('');
+
+  const setPrompt = (patch: Partial<PromptSettings>) => onChange({ ...settings, prompt: { ...prompt, ...patch } });
+
+  const setCredentials = (patch: Partial<CredentialSettings>) => onChange({ ...settings, credentials: { ...credentials, ...patch } });
+
+  const storeKey = () => {
+    if (!keyDraft.trim()) return;
+    saveApiKey(keyDraft);
+    setStoredKey(loadApiKey());
+    setKeyDraft('');
+  };
+
+  const forgetKey = () => {
+    clearApiKey();
+    setStoredKey(null);
+  };
+
+  const setAudioOutput = (patch: Partial<AudioOutputSettings>) => onChange({ ...settings, audioOutput: { ...audioOutput, ...patch } });
+
+  const setParticipants = (next: Participant[]) => onChange({ ...settings, participants: next });
+
+  // 至少保留一名受审者，否则没有可评分的人
+  const isOnlySubject = (participant: Participant) =>
+    participant.role === 'subject' && participants.filter(p => p.role === 'subject').length === 1;
+
+  const updateParticipant = (index: number, patch: Partial<Participant>) =>
+    setParticipants(participants.map((p, i) => i === index ? { ...p, ...patch } : p));
+
+  const addParticipant = (role: ParticipantRole) => setParticipants([...participants, newParticipant(participants, role)]);
+
+  const setTextChat = (patch: Partial<TextChatSettings>) => onChange({ ...settings, textChat: { ...textChat, ...patch } });
+
+  const setVideo = (patch: Partial<VideoStreamSettings>) => onChange({ ...settings, video: { ...video, ...patch } });
+
+  const updateBand = (index: number, patch: Partial<ScoringBand>) =>
+    setPrompt({ bands: prompt.bands.map((band, i) => i === index ? { ...band, ...patch } : band) });
+
+  // 输入过程中保持原顺序，失焦后再排序去重，避免输入到一半时条目跳动
+  const commitBands = () => setPrompt({ bands: normalizeBands(prompt.bands) });
+
+  const addBand = () => {
+    const last = prompt.bands[prompt.bands.length - 1];
+    const threshold = Math.min(100, Math.round((last.threshold + 100) / 2) + 1);
+    if (threshold <= last.threshold) return;
+    setPrompt({
+      bands: [...prompt.bands, { id: `band-${Date.now()}`, threshold, color: '#ff00ff', label: { zh: '', en: '' }, criteria: { zh: '', en: '' } }],
+    });
+  };
+
+  const removeBand = (index: number) => setPrompt({ bands: normalizeBands(prompt.bands.filter((_, i) => i !== index)) });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4">
+      <div className="border-2 border-[#00f3ff] bg-[#02040a] text-[#00f3ff] w-full max-w-md max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#00f3ff]/30">
+          <h2 className="flex items-center gap-2 font-bold tracking-widest"><Settings size={18} /> {t('settingsTitle')}</h2>
+          <button onClick={onClose} className="p-1"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-2 custom-scrollbar">
+          <Row label={t('uiLanguage')}>
+            <select value={settings.uiLocale} onChange={e => onChange({ ...settings, uiLocale: e.target.value as Locale })} className={selectClass}>
+              {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </Row>
+          <Row label={t('outputLanguage')}>
+            <select value={prompt.language} onChange={e => setPrompt({ language: e.target.value as Locale })} className={selectClass}>
+              {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </Row>
+          <Row label={t('persona')}>
+            <select value={prompt.persona} onChange={e => setPrompt({ persona: e.target.value as PersonaId })} className={selectClass}>
+              {(Object.keys(PERSONAS) as PersonaId[]).map(id => <option key={id} value={id}>{PERSONAS[id].name[locale]}</option>)}
+            </select>
+          </Row>
+          <Row label={t('strictness')}>
+            <select value={prompt.strictness} onChange={e => setPrompt({ strictness: e.target.value as Strictness })} className={selectClass}>
+              {STRICTNESS.map(s => <option key={s.id} value={s.id}>{t(s.label)}</option>)}
+            </select>
+          </Row>
+
+          <div className="flex items-center justify-between text-xs pt-3 pb-2">
+            <span className="flex items-center gap-2 opacity-70"><Users size={12} /> {t('participants')}</span>
+            <div className="flex gap-2">
+              {(['subject', 'interviewer'] as ParticipantRole[]).map(role => (
+                <button key={role} onClick={() => addParticipant(role)} disabled={participants.length >= MAX_PARTICIPANTS}
+                        className="px-2 py-1 border border-[#00f3ff]/40 flex items-center gap-1 disabled:opacity-30">
+                  <Plus size={12} /> {t(role === 'subject' ? 'addSubject' : 'addInterviewer')}
+                </button>
+              ))}
+            </div>
+          </div>
+          {participants.map((participant, i) => (
+            <div key={participant.id} className="flex items-center gap-2 text-xs pl-2 py-1 border-l-2" style={{ borderColor: participant.color }}>
+              <span className="font-mono opacity-50 w-3">{i + 1}</span>
+              <input type="color" value={participant.color} onChange={e => updateParticipant(i, { color: e.target.value })} className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer" />
+              <input value={participant.name} placeholder={t('participantName')} onChange={e => updateParticipant(i, { name: e.target.value })}
+                     className={`${selectClass} flex-1 min-w-0`} />
+              <select value={participant.role} disabled={isOnlySubject(participant)}
+                      onChange={e => updateParticipant(i, { role: e.target.value as ParticipantRole })} className={`${selectClass} disabled:opacity-40`}>
+                <option value="subject">{t('roleSubject')}</option>
+                <option value="interviewer">{t('roleInterviewer')}</option>
+              </select>
+              <button onClick={() => setParticipants(participants.filter((_, j) => j !== i))} disabled={isOnlySubject(participant)} title={t('removeParticipant')}
+                      className="p-1 opacity-70 hover:opacity-100 disabled:opacity-20"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          <div className="text-[10px] opacity-50 py-2">{t('participantsNote')}</div>
+
+          <div className="flex items-center gap-2 text-xs pt-3 pb-1 opacity-70"><KeyRound size={12} /> {t('credentials')}</div>
+          <Row label={t('credentialMode')}>
+            <select value={credentials.mode} onChange={e => setCredentials({ mode: e.target.value as CredentialMode })} className={selectClass}>
+              {CREDENTIAL_MODES.map(m => <option key={m.id} value={m.id}>{t(m.label)}</option>)}
+            </select>
+          </Row>
+          {credentials.mode === 'api-key' ? (
+            storedKey ? (
+              <Row label={t('apiKey')}>
+                <span className="flex items-center gap-2">
+                  <span className="font-mono opacity-80">{maskApiKey(storedKey)}</span>
+                  <button onClick={forgetKey} className="px-2 py-1 border border-[#00f3ff]/40">{t('clearApiKey')}</button>
+                </span>
+              </Row>
+            ) : (
+              <div className="flex items-center gap-2 text-xs py-2 border-b border-[#00f3ff]/10">
+                <input type="password" value={keyDraft} placeholder={t('apiKeyPlaceholder')} autoComplete="off"
+                       onChange={e => setKeyDraft(e.target.value)} onKeyDown={e => e.key === 'Enter' && storeKey()}
+                       className={`${selectClass} flex-1 min-w-0`} />
+                <button onClick={storeKey} disabled={!keyDraft.trim()} className="px-2 py-1 border border-[#00f3ff]/40 disabled:opacity-30">{t('saveApiKey')}</button>
+              </div>
+            )
+          ) : (
+            <Row label={t('proxyUrl')}>
+              <input value={credentials.proxyUrl} onChange={e => setCredentials({ proxyUrl: e.target.value })} className={`${selectClass} w-44`} />
+            </Row>
+          )}
+          <div className="text-[10px] opacity-50 py-2">{t(credentials.mode === 'api-key' ? 'apiKeyNote' : 'proxyNote')}</div>
+
+          <div className="text-xs pt-3 pb-1 opacity-70">{t('audioOutput')}</div>
+          <Row label={t('outputMode')}>
+            <select value={audioOutput.mode} onChange={e => setAudioOutput({ mode: e.target.value as OutputMode })} className={selectClass}>
+              {OUTPUT_MODES.map(m => <option key={m.id} value={m.id}>{t(m.label)}</option>)}
+            </select>
+          </Row>
+          <Row label={t('outputVoice')}>
+            <select value={audioOutput.voice} disabled={audioOutput.mode === 'text'} onChange={e => setAudioOutput({ voice: e.target.value })} className={`${selectClass} disabled:opacity-40`}>
+              {OUTPUT_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </Row>
+          <Row label={t('outputVolume')}>
+            <span className="flex items-center gap-2">
+              <input type="range" min={0} max={1} step={0.05} value={audioOutput.volume} disabled={audioOutput.mode === 'text'}
+                     onChange={e => setAudioOutput({ volume: Number(e.target.value) })} className="w-28 accent-[#00f3ff] disabled:opacity-40" />
+              <span className="font-mono w-8 text-right tabular-nums">{Math.round(audioOutput.volume * 100)}%</span>
+            </span>
+          </Row>
+          <Row label={t('echoGate')}>
+            <input type="checkbox" checked={audioOutput.echoGate} disabled={audioOutput.mode === 'text'} onChange={e => setAudioOutput({ echoGate: e.target.checked })} className="accent-[#00f3ff]" />
+          </Row>
+          <Row label={t('bargeIn')}>
+            <input type="checkbox" checked={audioOutput.bargeIn} disabled={audioOutput.mode === 'text' || !audioOutput.echoGate} onChange={e => setAudioOutput({ bargeIn: e.target.checked })} className="accent-[#00f3ff]" />
+          </Row>
+          {audioOutput.mode === 'text' && <div className="text-[10px] opacity-50 py-2">{t('outputTextNote')}</div>}
+
+          <div className="text-xs pt-3 pb-1 opacity-70">{t('textChat')}</div>
+          <Row label={t('textTransport')}>
+            <select value={textChat.transport} onChange={e => setTextChat({ transport: e.target.value as TextTransport })} className={selectClass}>
+              {TEXT_TRANSPORTS.map(m => <option key={m.id} value={m.id}>{t(m.label)}</option>)}
+            </select>
+          </Row>
+          <Row label={t('textSplitLines')}>
+            <input type="checkbox" checked={textChat.splitLines} onChange={e => setTextChat({ splitLines: e.target.checked })} className="accent-[#00f3ff]" />
+          </Row>
+          {textChat.transport === 'generate' && <div className="text-[10px] opacity-50 py-2">{t('textTransportNote')}</div>}
+
+          <div className="text-xs pt-3 pb-1 opacity-70">{t('videoStream')}</div>
+          <Row label={t('videoPreset')}>
+            <select value={matchVideoPreset(video) ?? ''} onChange={e => e.target.value && setVideo(VIDEO_PRESETS[e.target.value as VideoPresetId])} className={selectClass}>
+              {PRESETS.map(p => <option key={p.id} value={p.id}>{t(p.label)}</option>)}
+              {!matchVideoPreset(video) && <option value="">{t('presetCustom')}</option>}
+            </select>
+          </Row>
+          <Row label={t('videoFps')}>
+            <select value={video.fps} onChange={e => setVideo({ fps: Number(e.target.value) })} className={selectClass}>
+              {VIDEO_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps}</option>)}
+            </select>
+          </Row>
+          <Row label={t('videoResolution')}>
+            <select value={video.resolution} onChange={e => setVideo({ resolution: e.target.value as VideoResolution })} className={selectClass}>
+              {(Object.keys(VIDEO_RESOLUTIONS) as VideoResolution[]).map(r => <option key={r} value={r}>{VIDEO_RESOLUTIONS[r]}px</option>)}
+            </select>
+          </Row>
+          <Row label={t('videoQuality')}>
+            <select value={video.quality} onChange={e => setVideo({ quality: Number(e.target.value) })} className={selectClass}>
+              {VIDEO_QUALITY_OPTIONS.map(q => <option key={q} value={q}>{Math.round(q * 100)}%</option>)}
+            </select>
+          </Row>
+          <Row label={t('videoAdaptive')}>
+            <input type="checkbox" checked={video.adaptive} onChange={e => setVideo({ adaptive: e.target.checked })} className="accent-[#00f3ff]" />
+          </Row>
+          <Row label={t('videoMotion')}>
+            <input type="checkbox" checked={video.motion} onChange={e => setVideo({ motion: e.target.checked })} className="accent-[#00f3ff]" />
+          </Row>
+          <Row label={t('faceCrop')}>
+            <input type="checkbox" checked={settings.faceCrop} onChange={e => onChange({ ...settings, faceCrop: e.target.checked })} className="accent-[#00f3ff]" />
+          </Row>
+
+          <div className="flex items-center justify-between text-xs pt-3 pb-2">
+            <span className="opacity-70">{t('scoringBands')}</span>
+            <div className="flex gap-2">
+              <button onClick={addBand} className="px-2 py-1 border border-[#00f3ff]/40 flex items-center gap-1"><Plus size={12} /> {t('addBand')}</button>
+              <button onClick={() => setPrompt({ bands: DEFAULT_BANDS })} className="px-2 py-1 border border-[#00f3ff]/40 flex items-center gap-1"><RotateCcw size={12} /> {t('resetBands')}</button>
+            </div>
+          </div>
+          {prompt.bands.map((band, i) => (
+            <div key={band.id} className="border-l-2 pl-2 py-2 mb-2 space-y-1 text-xs" style={{ borderColor: band.color }}>
+              <div className="flex items-center gap-2">
+                <input type="color" value={band.color} onChange={e => updateBand(i, { color: e.target.value })} className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer" />
+                <span className="opacity-50">{t('bandThreshold')}</span>
+                <input type="number" min={0} max={100} value={band.threshold} disabled={i === 0}
+                       onChange={e => updateBand(i, { threshold: Number(e.target.value) })} onBlur={commitBands}
+                       className={`${selectClass} w-14 text-right disabled:opacity-40`} />
+                <input value={band.label[locale]} placeholder={t('bandLabel')}
+                       onChange={e => updateBand(i, { label: { ...band.label, [locale]: e.target.value } })}
+                       className={`${selectClass} flex-1 min-w-0`} />
+                <button onClick={() => removeBand(i)} disabled={prompt.bands.length <= 1} title={t('removeBand')}
+                        className="p-1 opacity-70 hover:opacity-100 disabled:opacity-20"><Trash2 size={14} /></button>
+              </div>
+              <input value={band.criteria[prompt.language]} placeholder={t('bandCriteria')}
+                     onChange={e => updateBand(i, { criteria: { ...band.criteria, [prompt.language]: e.target.value } })}
+                     className={`${selectClass} w-full`} />
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 text-[10px] opacity-50 border-t border-[#00f3ff]/20">{t('settingsNote')}</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+import { splitStatements } from '../services/textChat';
+
+interface TextComposerProps {
+  onSend: (statements: string[]) => void;
+  // Statements sent or queued whose reply has not finished yet
+  pending: number;
+  splitLines: boolean;
+  disabled?: boolean;
+}
+
+/** Input for text-chat sessions; pasted transcripts can be queued line by line. */
+export const TextComposer: React.FC<TextComposerProps> = ({ onSend, pending, splitLines, disabled }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+  const statements = splitStatements(draft, splitLines);
+
+  const send = () => {
+    if (disabled || statements.length === 0) return;
+    onSend(statements);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex-none flex flex-col gap-1">
+      <div className="flex gap-2">
+        <textarea value={draft} rows={2} disabled={disabled} placeholder={t('textPlaceholder')}
+                  onChange={e => setDraft(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                      e.preventDefault();
+                      send();
+                    }
+                  }}
+                  className="flex-1 min-w-0 resize-none bg-black/70 border border-current/50 px-3 py-2 text-sm font-chinese text-current placeholder:opacity-40 disabled:opacity-40" />
+        <button onClick={send} disabled={disabled || statements.length === 0}
+                className="px-4 border border-current/50 bg-black/70 flex items-center gap-2 text-xs font-display tracking-wider disabled:opacity-30">
+          <Send size={14} />
+          <span className="hidden sm:inline">{t('textSend')}</span>
+          {statements.length > 1 && <span className="bg-current text-black px-1.5 py-0.5 text-[10px] font-bold">{statements.length}</span>}
+        </button>
+      </div>
+      {pending > 0 && <div className="text-[10px] opacity-60 font-mono animate-pulse">{t('textQueued', { count: pending })}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { LogEntry, Participant, ScoringBand, TimelineItem, Turn } from '../types';
+import { useI18n } from '../services/i18n';
+import { findParticipant, isMultiSpeaker, participantLabel } from '../services/participants';
+import { bandLabel } from '../services/scoring';
+import { stripDeceptionTag } from '../services/verdictParser';
+import { formatMediaTime } from '../services/mediaFile';
+import { VocalFeaturesLine } from './VocalFeaturesView';
+
+interface TimelineViewProps {
+  items: TimelineItem[];
+  bands: ScoringBand[];
+  // Border color of turns that have no verdict yet
+  accent: string;
+  // Only recordings of the running session can be seeked
+  seekable: (mediaTime?: number) => boolean;
+  onSeek: (mediaTime: number) => void;
+  // With several participants each turn names its speaker; onRetag makes the name a picker
+  participants: Participant[];
+  onRetag?: (turnId: string, speakerId: string) => void;
+}
+
+const mediaLabel = (mediaTime?: number) => mediaTime !== undefined ? ` ▶${formatMediaTime(mediaTime)}` : '';
+
+const NoticeRow: React.FC<{ entry: LogEntry }> = ({ entry }) => (
+  <div className={`p-2 border-l-2 leading-relaxed break-words ${entry.type === 'deception' ? 'border-[#ff003c] bg-[#ff003c]/10 text-[#ff003c]' : 'border-[#ffaa00] text-[#ffaa00]'}`}>
+    <span className="opacity-50 select-none">[{entry.timestamp}]</span> {entry.message}
+  </div>
+);
+
+const SpeakerTag: React.FC<{ turn: Turn; participants: Participant[]; onRetag?: TimelineViewProps['onRetag'] }> = ({ turn, participants, onRetag }) => {
+  const { t, locale } = useI18n();
+  const speaker = findParticipant(participants, turn.speakerId);
+  if (!onRetag) {
+    return <span className="opacity-70 select-none" style={{ color: speaker?.color }}>{speaker ? participantLabel(speaker, participants, locale) : t('speakerSubject')}: </span>;
+  }
+  return (
+    <select value={turn.speakerId ?? ''} title={t('retagSpeaker')} onClick={e => e.stopPropagation()}
+            onChange={e => onRetag(turn.id, e.target.value)}
+            className="bg-transparent border-0 p-0 mr-1 cursor-pointer" style={{ color: speaker?.color }}>
+      {!speaker && <option value="">{t('speakerSubject')}</option>}
+      {participants.map(p => <option key={p.id} value={p.id} className="bg-[#02040a]">{participantLabel(p, participants, locale)}</option>)}
+    </select>
+  );
+};
+
+const TurnCard: React.FC<{ turn: Turn } & Omit<TimelineViewProps, 'items'>> = ({ turn, bands, accent, seekable, onSeek, participants, onRetag }) => {
+  const { t, locale } = useI18n();
+  const multiSpeaker = isMultiSpeaker(participants);
+  const band = turn.band ? bands.find(b => b.id === turn.band) : undefined;
+  const color = band?.color;
+  const analysis = stripDeceptionTag(turn.analysis).trim();
+  const canSeek = seekable(turn.mediaTime);
+
+  return (
+    <div className={`border-l-2 p-2 leading-relaxed break-words ${canSeek ? 'cursor-pointer hover:bg-white/5' : ''}`}
+         style={{ borderColor: color ?? accent, backgroundColor: color ? `${color}0d` : undefined }}
+         onClick={() => canSeek && onSeek(turn.mediaTime!)} title={canSeek ? t('seekHint') : undefined}>
+      <div className="flex items-center justify-between gap-2 opacity-60 select-none">
+        <span>[{turn.timestamp}]{mediaLabel(turn.mediaTime)}</span>
+        {multiSpeaker && findParticipant(participants, turn.speakerId)?.role === 'interviewer' && <span>{t('notScored')}</span>}
+        {turn.rate !== undefined && (
+          <span className="font-bold tabular-nums" style={{ color }}>
+            {turn.calibration && `${t('logCalibration')} · `}{turn.rate}%{turn.rawRate !== undefined && ` (${t('logRawRate')} ${turn.rawRate}%)`}{band && ` ${bandLabel(band, locale)}`}
+            {turn.confidence !== undefined && <span className="font-normal opacity-70"> · {t('logConfidence')} {turn.confidence}%</span>}
+          </span>
+        )}
+      </div>
+
+      {turn.subject && (
+        <div className="mt-1">
+          {multiSpeaker
+            ? <SpeakerTag turn={turn} participants={participants} onRetag={onRetag} />
+            : <span className="opacity-50 select-none">{t('speakerSubject')}: </span>}
+          {turn.subject}
+          {turn.vocal && <VocalFeaturesLine features={turn.vocal} />}
+        </div>
+      )}
+
+      {(analysis || turn.reasoning) && (
+        <div className={`mt-1 ${turn.subject ? 'pt-1 border-t border-white/10' : ''}`} style={{ color }}>
+          <span className="opacity-50 select-none">{t('speakerSystem')}: </span>{analysis || turn.reasoning}
+          {analysis && turn.reasoning && turn.reasoning !== analysis && <div className="opacity-70">» {turn.reasoning}</div>}
+        </div>
+      )}
+
+      {!!turn.cues?.length && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {turn.cues.map(cue => <span key={cue} className="px-1 border border-current/30 text-[10px] opacity-70" style={{ color }}>{cue}</span>)}
+        </div>
+      )}
+
+      {!turn.complete && turn.rate === undefined && <div className="mt-1 opacity-40 animate-pulse select-none">{t('analyzing')}</div>}
+    </div>
+  );
+};
+
+/** The transcript as question→verdict cards, with system notices between them. */
+export const TimelineView: React.FC<TimelineViewProps> = ({ items, ...props }) => (
+  <>
+    {items.map(item => item.kind === 'notice'
+      ? <NoticeRow key={item.entry.id} entry={item.entry} />
+      : <TurnCard key={item.turn.id} turn={item.turn} {...props} />)}
+  </>
+);
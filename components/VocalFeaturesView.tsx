@@ -0,0 +1,35 @@
+import React from 'react';
+import { VocalFeatures } from '../types';
+import { useI18n } from '../services/i18n';
+
+/** Compact one-line summary shown under a subject's log entry. */
+export const VocalFeaturesLine: React.FC<{ features: VocalFeatures }> = ({ features: v }) => (
+  <div className="mt-1 text-[10px] font-mono opacity-50">
+    F0 {v.f0Mean}Hz ±{Math.round(v.f0Range / 2)} · J {v.jitter}% · S {v.shimmer}% · {v.speechRate}/s · ⏸{v.pauseCount}×{v.meanPauseMs}ms · V {Math.round(v.voicedRatio * 100)}%
+  </div>
+);
+
+/** Latest utterance's prosody next to the model's verdict. */
+export const VocalFeaturesGrid: React.FC<{ features: VocalFeatures }> = ({ features: v }) => {
+  const { t } = useI18n();
+  const cells: [string, string][] = [
+    [t('vocalPitch'), `${v.f0Mean} Hz (${v.f0Range})`],
+    [t('vocalRate'), `${v.speechRate} ${t('vocalRateUnit')}`],
+    [t('vocalJitter'), `${v.jitter}%`],
+    [t('vocalShimmer'), `${v.shimmer}%`],
+    [t('vocalPauses'), `${v.pauseCount} · ${v.longestPauseMs}ms`],
+    [t('vocalVoiced'), `${Math.round(v.voicedRatio * 100)}%`],
+  ];
+  return (
+    <div className="w-full mt-3 pt-2 border-t border-white/10 text-[10px] font-mono">
+      <div className="opacity-60 mb-1 tracking-widest">{t('vocalFeatures')}</div>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+        {cells.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <span className="opacity-60">{label}</span><span className="tabular-nums">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+// Local token proxy: keeps GEMINI_API_KEY on the server and hands the browser
+// single-use ephemeral Live API tokens, so the key never ships in the bundle.
+//
+//   npm run proxy            (reads GEMINI_API_KEY from .env.local or the environment)
+//
+// Options (environment or .env.local):
+//   TOKEN_PROXY_PORT     port to listen on (default 8787; vite forwards /api here)
+//   TOKEN_PROXY_HOST     interface to bind (default 127.0.0.1)
+//   TOKEN_PROXY_ORIGINS  comma-separated browser origins allowed to request tokens
+//   TOKEN_TTL_MINUTES    how long a session opened with a token may run (default 60)
+//   TOKEN_RATE_LIMIT     tokens handed out per minute (default 30)
+//
+// Requests must carry an allowlisted Origin. To use the app from another
+// machine on the LAN, add its page origin (e.g. http://192.168.1.20:3000) to
+// TOKEN_PROXY_ORIGINS. The header can still be forged by a determined client,
+// so anything reachable from the internet must sit behind your own authentication.
+import fs from 'node:fs';
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+
+function readEnvFile(file) {
+  if (!fs.existsSync(file)) return {};
+  const vars = {};
+  for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (match) vars[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  }
+  return vars;
+}
+
+const env = { ...readEnvFile('.env'), ...readEnvFile('.env.local'), ...process.env };
+const apiKey = env.GEMINI_API_KEY;
+const port = Number(env.TOKEN_PROXY_PORT || 8787);
+const host = env.TOKEN_PROXY_HOST || '127.0.0.1';
+const allowedOrigins = (env.TOKEN_PROXY_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(o => o.trim());
+const ttlMinutes = Number(env.TOKEN_TTL_MINUTES || 60);
+const rateLimit = Number(env.TOKEN_RATE_LIMIT || 30);
+
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set (environment or .env.local)');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey });
+let issued = [];
+
+const send = (res, status, body, origin) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...(origin ? { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' } : {}),
+  });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  // Browsers send the page's origin on every POST, also through the vite proxy; a request
+  // without one comes from a script or tool, which would otherwise bypass the allowlist
+  if (!origin) return send(res, 403, { error: 'Origin header required' });
+  if (!allowedOrigins.includes(origin)) return send(res, 403, { error: `Origin ${origin} not allowed` });
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Origin': origin, 'Access-Control-Allow-Methods': 'POST', Vary: 'Origin' });
+    return res.end();
+  }
+  if (req.method !== 'POST' || req.url !== '/api/token') return send(res, 404, { error: 'Not found' }, origin);
+
+  const now = Date.now();
+  issued = issued.filter(time => now - time < 60_000);
+  if (issued.length >= rateLimit) return send(res, 429, { error: 'Token rate limit reached' }, origin);
+  issued.push(now);
+
+  try {
+    const expireTime = new Date(now + ttlMinutes * 60_000).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime: new Date(now + 60_000).toISOString(),
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    send(res, 200, { token: token.name, expireTime }, origin);
+  } catch (e) {
+    console.error('Token request failed', e);
+    const status = /\b(401|403)\b|api key/i.test(String(e?.message)) ? 401 : /\b429\b|quota/i.test(String(e?.message)) ? 429 : 502;
+    send(res, status, { error: e?.message ?? String(e) }, origin);
+  }
+});
+
+server.listen(port, host, () => {
+  console.log(`Token proxy listening on http://${host}:${port}/api/token (origins: ${allowedOrigins.join(', ')})`);
+});
@@ -0,0 +1,71 @@
+import { AnalysisModality, Participant, SubjectBaseline, Verdict, VocalFeatures } from '../types';
+import { AudioOutputSettings } from './audioOutput';
+import { CredentialSettings } from './credentials';
+import { PromptSettings } from './promptTemplate';
+import { FrameRegion } from './rppg';
+import { SessionError } from './sessionErrors';
+import { TextChatSettings } from './textChat';
+import { VideoStreamSettings, VideoStreamStats } from './videoStreamer';
+
+export type ProviderId = 'gemini' | 'mock';
+
+/** Streamed transcript chunks; `isTurnComplete` marks the end of the model's turn and may come with empty text. */
+export type LogCallback = (text: string, isModel: boolean, isTurnComplete?: boolean) => void;
+
+export const capturesAudio = (modality: AnalysisModality) => modality === 'audio-video' || modality === 'audio';
+export const capturesVideo = (modality: AnalysisModality) => modality === 'audio-video' || modality === 'video';
+
+/** A connection-level event for the diagnostic bundle, e.g. a socket close or a failed send. */
+export type DiagnosticCallback = (type: string, detail?: string) => void;
+
+/**
+ * A backend that watches the subject's media and reports transcripts, volume,
+ * vocal features and verdicts. The UI only talks to this interface, so live and offline
+ * providers are interchangeable.
+ */
+export interface AnalysisProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  /** Model identifier recorded in session archives. */
+  readonly model: string;
+
+  setOnLog(callback: LogCallback): void;
+  setOnVolume(callback: (volume: number) => void): void;
+  setOnVerdict(callback: (verdict: Verdict) => void): void;
+  /** Called with the prosody of each finished subject utterance. */
+  setOnVocalFeatures(callback: (features: VocalFeatures) => void): void;
+  /** Called once when the session ends without `disconnect`, with the reason classified. */
+  setOnDisconnect(callback: (error: SessionError) => void): void;
+  setOnDiagnostic(callback: DiagnosticCallback): void;
+  /** Where to get an API key or token from; backends that need none ignore it. */
+  setCredentials(credentials: CredentialSettings): void;
+  /** Spoken/ducked/text output, volume, voice and echo gating; volume and gating apply immediately. */
+  setAudioOutput(settings: AudioOutputSettings): void;
+  /** Called about once a second while video frames are being streamed. */
+  setOnVideoStats(callback: (stats: VideoStreamStats) => void): void;
+  setBaseline(baseline: SubjectBaseline | null): void;
+  setPromptSettings(settings: PromptSettings): void;
+  /** Which streams to analyze from the next connect. */
+  setModality(modality: AnalysisModality): void;
+  /** How typed statements are sent from the next connect; backends with only one way ignore it. */
+  setTextChat(settings: TextChatSettings): void;
+  /** Everyone who may speak; from the next connect the model is told about them when there are several. */
+  setParticipants(participants: Participant[]): void;
+  /** The person the operator tagged as speaking now; a live model is told at once, and again after reconnecting. */
+  setActiveSpeaker(speaker: Participant | null): void;
+  /** Face box to crop outgoing video frames to; null sends the whole frame. */
+  setFaceRegion(region: FrameRegion | null): void;
+  setVideoSettings(settings: VideoStreamSettings): void;
+
+  connect(stream: MediaStream, videoElement: HTMLVideoElement, canvasElement: HTMLCanvasElement, resume?: boolean): Promise<void>;
+  /**
+   * Sends a typed statement as the subject's turn (text modality). It is
+   * echoed through the log callback like a transcript, and the promise
+   * settles once the model has finished its reply, so statements can be
+   * queued one after another.
+   */
+  sendText(text: string): Promise<void>;
+  /** Re-attaches capture after the connected stream's tracks were switched to another device. */
+  rebindStream(stream: MediaStream): Promise<void>;
+  disconnect(): Promise<void>;
+}
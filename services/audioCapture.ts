@@ -0,0 +1,120 @@
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 50 ms per chunk: small enough for low latency, large enough to keep message overhead down
+const CHUNK_SAMPLES = 800;
+const PROCESSOR_NAME = 'pcm-capture';
+
+export interface AudioChunk {
+  // 16-bit PCM at CAPTURE_SAMPLE_RATE
+  pcm: Int16Array;
+  // RMS level of the chunk, 0-1
+  rms: number;
+}
+
+/**
+ * Runs on the audio rendering thread. Downsamples the native-rate input to
+ * the target rate by averaging each output sample's input window (a box
+ * filter, enough to keep speech free of aliasing), converts to clamped Int16
+ * and posts fixed-size chunks with their RMS level back to the main thread.
+ */
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+    this.sumSquares = 0;
+    this.acc = 0;
+    this.count = 0;
+    this.phase = 0;
+  }
+
+  push(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.sumSquares += s * s;
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.filled === this.chunk.length) {
+      const rms = Math.sqrt(this.sumSquares / this.filled);
+      const pcm = this.chunk;
+      this.port.postMessage({ pcm, rms }, [pcm.buffer]);
+      this.chunk = new Int16Array(pcm.length);
+      this.filled = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.acc += channel[i];
+      this.count++;
+      this.phase += 1;
+      if (this.phase >= this.ratio) {
+        this.phase -= this.ratio;
+        this.push(this.acc / this.count);
+        this.acc = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let moduleUrl: string | null = null;
+
+const workletUrl = () => {
+  if (!moduleUrl) moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  return moduleUrl;
+};
+
+/**
+ * Captures microphone audio off the main thread. The context runs at the
+ * device's native rate; resampling to 16 kHz happens inside the worklet, so
+ * nothing relies on the browser honouring a requested sample rate.
+ */
+export class AudioCapture {
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+
+  constructor(private onChunk: (chunk: AudioChunk) => void) {}
+
+  public async start(stream: MediaStream): Promise<void> {
+    this.stop();
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.context = context;
+    if (!context.audioWorklet) throw new Error('AudioWorklet is not supported in this browser (a secure context is required)');
+    await context.audioWorklet.addModule(workletUrl());
+    if (context.state === 'suspended') await context.resume();
+    // stop() may have run while the module was loading
+    if (this.context !== context) return;
+
+    this.source = context.createMediaStreamSource(stream);
+    this.node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES },
+    });
+    this.node.port.onmessage = (e: MessageEvent<AudioChunk>) => this.onChunk(e.data);
+    this.source.connect(this.node);
+  }
+
+  public stop() {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+}
@@ -0,0 +1,121 @@
+import { base64ToUint8Array, decodeAudioData } from './audioUtils';
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * How the model's replies reach the interviewer. Spoken plays them at the
+ * set volume, ducked plays them quietly under the room, and text asks the
+ * model for text only so nothing is played at all.
+ */
+export type OutputMode = 'spoken' | 'ducked' | 'text';
+
+// Prebuilt Live API voices
+export const OUTPUT_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'] as const;
+
+export interface AudioOutputSettings {
+  mode: OutputMode;
+  // 0-1, applied on top of the mode's level
+  volume: number;
+  voice: string;
+  // Hold back microphone audio while the model is speaking so its voice is not analyzed as the subject
+  echoGate: boolean;
+  // While gated, let loud speech through and cut the model off
+  bargeIn: boolean;
+}
+
+export const DEFAULT_AUDIO_OUTPUT: AudioOutputSettings = {
+  mode: 'spoken',
+  volume: 0.8,
+  voice: 'Kore',
+  echoGate: true,
+  bargeIn: true,
+};
+
+const DUCKED_LEVEL = 0.25;
+// Room reverb and the output device's buffer keep the voice audible briefly after the last sample
+const ECHO_TAIL = 0.3;
+// Mic RMS (0-1) that counts as the subject talking over the model rather than echo
+export const BARGE_IN_RMS = 0.08;
+
+/**
+ * Plays the model's 24 kHz PCM replies gap-free through a single gain node,
+ * and knows whether anything is audible so capture can be gated on it.
+ */
+export class AudioOutput {
+  private context: AudioContext | null = null;
+  private gain: GainNode | null = null;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private settings = DEFAULT_AUDIO_OUTPUT;
+
+  public async open(): Promise<void> {
+    this.close();
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+    this.context = context;
+    // Ensure the context is running (browser requires user gesture, which we have via the Start button)
+    if (context.state === 'suspended') await context.resume();
+    this.gain = context.createGain();
+    this.gain.gain.value = this.level();
+    this.gain.connect(context.destination);
+  }
+
+  /** Takes effect immediately; the volume ramps to avoid clicks. */
+  public setSettings(settings: AudioOutputSettings) {
+    this.settings = settings;
+    this.applyLevel();
+  }
+
+  public async play(base64Pcm: string): Promise<void> {
+    const context = this.context;
+    if (!context || !this.gain || this.settings.mode === 'text') return;
+    if (context.state === 'suspended') await context.resume();
+
+    const buffer = await decodeAudioData(base64ToUint8Array(base64Pcm), context, OUTPUT_SAMPLE_RATE, 1);
+    // close() may have run while decoding
+    if (context !== this.context) return;
+    this.nextStartTime = Math.max(this.nextStartTime, context.currentTime);
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+    source.addEventListener('ended', () => this.sources.delete(source));
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+  }
+
+  /** Whether the model is audible now (including its tail), i.e. whether the mic would pick it up. */
+  public get playing(): boolean {
+    if (!this.context || (this.sources.size === 0 && this.nextStartTime === 0)) return false;
+    return this.context.currentTime < this.nextStartTime + ECHO_TAIL;
+  }
+
+  /** Stops everything queued, e.g. when the subject barges in or the server reports an interruption. */
+  public interrupt() {
+    this.sources.forEach(source => {
+      try {
+        source.stop();
+      } catch {}
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+
+  public close() {
+    this.interrupt();
+    this.gain?.disconnect();
+    this.gain = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+
+  private level() {
+    const { mode, volume } = this.settings;
+    return mode === 'text' ? 0 : mode === 'ducked' ? volume * DUCKED_LEVEL : volume;
+  }
+
+  private applyLevel() {
+    if (!this.context || !this.gain) return;
+    this.gain.gain.setTargetAtTime(this.level(), this.context.currentTime, 0.05);
+  }
+}
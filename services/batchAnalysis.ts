@@ -0,0 +1,225 @@
+import { DeceptionSample, Participant, ScoringBand, SessionArchive, TimelineItem, Turn, Verdict, VerdictRecord } from '../types';
+import { createGeminiClient, CredentialSettings } from './credentials';
+import { parseVerdictArgs, REPORT_VERDICT } from './geminiLiveService';
+import { createTranslator, Locale } from './i18n';
+import { scriptedTextVerdict } from './mockAnalysisProvider';
+import { findParticipant, isMultiSpeaker, isScored, scoredParticipants } from './participants';
+import { buildSystemInstruction, PromptSettings, speakerNote, verdictTag } from './promptTemplate';
+import { classifyRate } from './scoring';
+import { createSessionArchive } from './sessionArchive';
+import { rateHistogram } from './sessionAnalytics';
+import { SessionError, toSessionError } from './sessionErrors';
+import { GENERATE_MODEL, GenerateChat } from './textChat';
+import { statementSpeakerId, TranscriptStatement } from './transcriptImport';
+import { parseDeceptionRate, stripDeceptionTag } from './verdictParser';
+
+// Untimed transcripts are laid out one statement per second, so charts and durations stay readable
+const STATEMENT_SPACING_MS = 1000;
+
+export interface StatementScore {
+  reply: string;
+  // Structured verdict from report_verdict, when the model called it
+  verdict: Verdict | null;
+}
+
+/**
+ * Scores one statement. `message` is what the model is sent: the statement,
+ * preceded by speaker notes and any interviewer lines since the last answer.
+ */
+export type StatementScorer = (message: string, statement: TranscriptStatement) => Promise<StatementScore>;
+
+export interface BatchResult {
+  index: number;
+  statement: TranscriptStatement;
+  speakerId?: string;
+  // Interviewer lines are sent as context for the next answer and get no rate
+  scored: boolean;
+  reply: string;
+  rate?: number;
+  source?: VerdictRecord['source'];
+  verdict?: Verdict;
+  // Why a scored statement got no rate; the run carries on past it
+  error?: SessionError;
+}
+
+export interface BatchSummary {
+  scoredCount: number;
+  failedCount: number;
+  avgRate: number | null;
+  maxRate: number | null;
+  // Statement counts per 10% of deception rate; the last bin includes 100
+  histogram: number[];
+}
+
+/**
+ * Scores statements with generateContent at temperature 0, one conversation
+ * for the whole transcript so later answers are judged against earlier ones.
+ * Ephemeral proxy tokens only work with the Live API, so an API key is required.
+ */
+export async function createGeminiScorer(credentials: CredentialSettings, prompt: PromptSettings, participants: Participant[]): Promise<StatementScorer> {
+  if (credentials.mode === 'token-proxy') {
+    throw new SessionError('auth', 'generateContent needs an API key', { messageKey: 'errorGenerateNeedsKey' });
+  }
+  const ai = await createGeminiClient(credentials);
+  let verdict: Verdict | null = null;
+  const chat = new GenerateChat(ai, GENERATE_MODEL, buildSystemInstruction(prompt, null, 'text', participants), [REPORT_VERDICT], call => {
+    if (call.name !== REPORT_VERDICT.name) return { error: `Unknown function ${call.name}` };
+    const parsed = parseVerdictArgs(call.args);
+    if (!parsed) return { error: 'deceptionRate must be a number between 0 and 100' };
+    verdict = parsed;
+    return { output: 'recorded' };
+  });
+  return async message => {
+    verdict = null;
+    const reply = await chat.send(message);
+    return { reply, verdict };
+  };
+}
+
+/** Offline scorer with the same heuristic verdicts as the demo backend's text chat. */
+export function createMockScorer(language: Locale): StatementScorer {
+  return async (_message, statement) => {
+    const verdict = scriptedTextVerdict(statement.text, language);
+    return { reply: `${verdictTag(language, verdict.deceptionRate)} ${verdict.reasoning}`, verdict };
+  };
+}
+
+export interface BatchOptions {
+  language: Locale;
+  // Called with every result as soon as it is known
+  onResult?: (result: BatchResult) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Scores a transcript statement by statement. The structured verdict wins,
+ * as in live sessions; otherwise the rate is parsed from the written reply.
+ * A failed statement is recorded and skipped, but errors that would fail
+ * every request (key, quota) end the run. Aborting returns what was scored.
+ */
+export async function analyzeTranscript(statements: TranscriptStatement[], participants: Participant[], scorer: StatementScorer, options: BatchOptions): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  const multiSpeaker = isMultiSpeaker(participants);
+  let context: string[] = [];
+
+  for (const [index, statement] of statements.entries()) {
+    if (options.signal?.aborted) break;
+    const speakerId = statementSpeakerId(statement, participants);
+    const speaker = findParticipant(participants, speakerId);
+    const line = multiSpeaker && speaker ? `${speakerNote(speaker, participants, options.language)}\n${statement.text}` : statement.text;
+    const result: BatchResult = { index, statement, speakerId, scored: isScored(participants, speakerId), reply: '' };
+
+    if (!result.scored) {
+      context.push(line);
+    } else {
+      const message = [...context, line].join('\n');
+      context = [];
+      try {
+        const { reply, verdict } = await scorer(message, statement);
+        const parsed = parseDeceptionRate(reply, options.language);
+        result.reply = reply;
+        if (verdict) Object.assign(result, { rate: verdict.deceptionRate, source: 'tool', verdict });
+        else if (parsed !== null) Object.assign(result, { rate: parsed, source: 'transcript' });
+      } catch (e) {
+        const error = toSessionError(e);
+        if (!error.retryable) throw error;
+        result.error = error;
+      }
+    }
+    results.push(result);
+    options.onResult?.(result);
+  }
+  return results;
+}
+
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  const rates = results.flatMap(r => r.rate !== undefined ? [r.rate] : []);
+  return {
+    scoredCount: rates.length,
+    failedCount: results.filter(r => r.error).length,
+    avgRate: rates.length ? Math.round(rates.reduce((sum, r) => sum + r, 0) / rates.length) : null,
+    // Long transcripts can exceed the argument limit of a spread call
+    maxRate: rates.length ? rates.reduce((a, b) => Math.max(a, b)) : null,
+    histogram: rateHistogram(rates),
+  };
+}
+
+/** The highest-rated statements, most suspicious first; ties keep transcript order. */
+export const mostSuspicious = (results: BatchResult[], count = 5): BatchResult[] =>
+  results.filter(r => r.rate !== undefined).sort((a, b) => b.rate! - a.rate!).slice(0, count);
+
+interface BatchArchiveInput {
+  startedAt: number;
+  model: string;
+  bands: ScoringBand[];
+  participants: Participant[];
+  // Name of the imported transcript file, also used as the session title
+  source?: string;
+  // Language of the notices written into the timeline
+  locale: Locale;
+}
+
+/**
+ * Lays the results out as a text session, so batch runs are saved, replayed
+ * and exported exactly like live ones. Timed transcripts keep their timings.
+ */
+export function batchToArchive(results: BatchResult[], input: BatchArchiveInput): SessionArchive {
+  const timed = results.length > 0 && results.every(r => r.statement.mediaTime !== undefined);
+  const perSubject = scoredParticipants(input.participants).length > 1;
+  const timeline: TimelineItem[] = [];
+  const history: DeceptionSample[] = [];
+  const verdicts: VerdictRecord[] = [];
+  const latestRates: Record<string, number> = {};
+  let endedAt = input.startedAt;
+  const t = createTranslator(input.locale);
+
+  for (const result of results) {
+    const time = input.startedAt + (timed ? result.statement.mediaTime! * 1000 : result.index * STATEMENT_SPACING_MS);
+    const timestamp = new Date(time).toLocaleTimeString('zh-CN', { hour12: false });
+    const { rate, verdict, speakerId } = result;
+    const turn: Turn = {
+      id: `batch-${input.startedAt}-${result.index}`,
+      startedAt: time,
+      endedAt: time,
+      timestamp,
+      subject: result.statement.text,
+      analysis: result.reply,
+      complete: true,
+      type: 'neutral',
+      mediaTime: result.statement.mediaTime,
+      speakerId,
+    };
+    if (rate !== undefined) {
+      Object.assign(turn, {
+        rate, verdictSource: result.source, confidence: verdict?.confidence, cues: verdict?.cues, reasoning: verdict?.reasoning,
+        ...classifyRate(rate, input.bands),
+      });
+      if (speakerId) latestRates[speakerId] = rate;
+      history.push({ time, value: rate, rates: perSubject ? { ...latestRates } : undefined });
+      verdicts.push({
+        logId: turn.id, time, timestamp, rate, reasoning: verdict?.reasoning ?? stripDeceptionTag(result.reply), source: result.source!,
+        confidence: verdict?.confidence, cues: verdict?.cues, mediaTime: turn.mediaTime, speakerId,
+      });
+    }
+    timeline.push({ kind: 'turn', turn });
+    if (result.error) {
+      timeline.push({ kind: 'notice', entry: { id: `${turn.id}-error`, timestamp, message: t('batchStatementFailed', { error: t(result.error.messageKey) }), type: 'system' } });
+    }
+    endedAt = Math.max(endedAt, time + STATEMENT_SPACING_MS);
+  }
+
+  const archive = createSessionArchive({
+    id: `batch-${input.startedAt}`,
+    startedAt: input.startedAt,
+    endedAt,
+    model: input.model,
+    timeline,
+    history,
+    verdicts,
+    bands: input.bands,
+    modality: 'text',
+    mediaFile: input.source,
+    participants: isMultiSpeaker(input.participants) ? input.participants : undefined,
+  });
+  return input.source ? { ...archive, title: input.source } : archive;
+}
@@ -0,0 +1,58 @@
+import { SubjectBaseline } from '../types';
+import { MessageKey } from './i18n';
+
+export interface CalibrationQuestion {
+  id: string;
+  prompt: MessageKey;
+  expected: 'truth' | 'lie';
+}
+
+export interface CalibrationSample {
+  questionId: string;
+  expected: 'truth' | 'lie';
+  rates: number[];
+  volumes: number[];
+}
+
+export const CALIBRATION_QUESTIONS: CalibrationQuestion[] = [
+  { id: 'name', prompt: 'calibrationQuestionName', expected: 'truth' },
+  { id: 'city', prompt: 'calibrationQuestionCity', expected: 'truth' },
+  { id: 'age-lie', prompt: 'calibrationQuestionAgeLie', expected: 'lie' },
+  { id: 'clothes-lie', prompt: 'calibrationQuestionClothesLie', expected: 'lie' },
+];
+
+// Volume frames below this are treated as silence and left out of the speaking level
+export const SPEECH_VOLUME_FLOOR = 2;
+
+// A calibrated subject's known-truth score maps to TRUTH_ANCHOR and known-lie score to LIE_ANCHOR
+const TRUTH_ANCHOR = 20;
+const LIE_ANCHOR = 85;
+// Below this truth/lie separation the baseline says nothing useful and raw scores are kept
+const MIN_SEPARATION = 10;
+
+const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/** Aggregates calibration answers; returns null unless both a truth and a lie answer produced a verdict. */
+export function computeBaseline(samples: CalibrationSample[]): SubjectBaseline | null {
+  const pick = (expected: 'truth' | 'lie', key: 'rates' | 'volumes') =>
+    mean(samples.filter(s => s.expected === expected).flatMap(s => s[key]));
+
+  const truthRate = pick('truth', 'rates');
+  const lieRate = pick('lie', 'rates');
+  if (truthRate === null || lieRate === null) return null;
+
+  return {
+    truthRate: Math.round(truthRate),
+    lieRate: Math.round(lieRate),
+    truthVolume: Math.round((pick('truth', 'volumes') ?? 0) * 10) / 10,
+    lieVolume: Math.round((pick('lie', 'volumes') ?? 0) * 10) / 10,
+    calibratedAt: Date.now(),
+  };
+}
+
+/** Rescales a raw model score linearly so this subject's baseline lands on the common anchors. */
+export function normalizeRate(raw: number, baseline: SubjectBaseline | null): number {
+  if (!baseline || baseline.lieRate - baseline.truthRate < MIN_SEPARATION) return raw;
+  const scaled = TRUTH_ANCHOR + (raw - baseline.truthRate) * (LIE_ANCHOR - TRUTH_ANCHOR) / (baseline.lieRate - baseline.truthRate);
+  return Math.round(Math.max(0, Math.min(100, scaled)));
+}
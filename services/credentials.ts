@@ -0,0 +1,88 @@
+import { GoogleGenAI } from '@google/genai';
+import { SessionError } from './sessionErrors';
+
+/**
+ * How the browser authenticates to Gemini. Nothing is baked into the bundle:
+ * either the user pastes a key that lives in session storage for this tab
+ * only, or a short-lived token is fetched from the bundled proxy
+ * (server/token-proxy.mjs), which holds the real key on the server side.
+ */
+export type CredentialMode = 'api-key' | 'token-proxy';
+
+export interface CredentialSettings {
+  mode: CredentialMode;
+  // Endpoint that returns an ephemeral token; relative URLs go through the Vite dev/preview proxy
+  proxyUrl: string;
+}
+
+export const DEFAULT_CREDENTIALS: CredentialSettings = {
+  mode: 'api-key',
+  proxyUrl: '/api/token',
+};
+
+const API_KEY_STORAGE = 'veritas-v9-api-key';
+
+/** The key entered in this tab, or null. Session storage is cleared when the tab closes. */
+export function loadApiKey(): string | null {
+  try {
+    return sessionStorage.getItem(API_KEY_STORAGE) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveApiKey(key: string) {
+  try {
+    sessionStorage.setItem(API_KEY_STORAGE, key.trim());
+  } catch (e) {
+    console.warn('Failed to store API key', e);
+  }
+}
+
+export function clearApiKey() {
+  try {
+    sessionStorage.removeItem(API_KEY_STORAGE);
+  } catch {}
+}
+
+/** Masked form for display, e.g. "AIza…9xQ". */
+export const maskApiKey = (key: string) => key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-3)}` : '…';
+
+/** Whether a live session can be attempted; the proxy is only checked when connecting. */
+export const hasCredentials = (credentials: CredentialSettings) =>
+  credentials.mode === 'token-proxy' || loadApiKey() !== null;
+
+export interface EphemeralToken {
+  token: string;
+  expireTime: string;
+}
+
+/** Asks the proxy for a single-use token. Failures are classified like any other session error. */
+export async function fetchEphemeralToken(proxyUrl: string): Promise<EphemeralToken> {
+  let response: Response;
+  try {
+    response = await fetch(proxyUrl, { method: 'POST' });
+  } catch (e) {
+    throw new SessionError('network', `Token proxy unreachable at ${proxyUrl}`, { messageKey: 'errorTokenProxy', cause: e });
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body?.token !== 'string') {
+    const message = `Token proxy returned ${response.status}${body?.error ? `: ${body.error}` : ''}`;
+    if (response.status === 401 || response.status === 403) throw new SessionError('auth', message);
+    if (response.status === 429) throw new SessionError('quota', message);
+    throw new SessionError('network', message, { messageKey: 'errorTokenProxy' });
+  }
+  return { token: body.token, expireTime: body.expireTime };
+}
+
+/** Builds a client from the configured credentials; called for every connect so tokens are never reused. */
+export async function createGeminiClient(credentials: CredentialSettings): Promise<GoogleGenAI> {
+  if (credentials.mode === 'token-proxy') {
+    const { token } = await fetchEphemeralToken(credentials.proxyUrl);
+    // Ephemeral tokens are only accepted by the v1alpha Live endpoint
+    return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+  }
+  const apiKey = loadApiKey();
+  if (!apiKey) throw new SessionError('auth', 'No API key entered', { messageKey: 'errorNoApiKey' });
+  return new GoogleGenAI({ apiKey });
+}
@@ -0,0 +1,180 @@
+import { FrameRegion } from './rppg';
+
+const DETECT_INTERVAL = 200; // ~5 fps is plenty for a box that follows a seated subject
+const DETECT_WIDTH = 160;
+// Consecutive misses before the target counts as lost
+const MAX_MISSES = 3;
+// Weight of the newest detection in the smoothed box
+const SMOOTHING = 0.5;
+// Skin-tone fallback: minimum share of skin pixels and box size in standard deviations
+const MIN_SKIN_RATIO = 0.03;
+const SKIN_SPREAD_X = 1.8;
+const SKIN_SPREAD_Y = 2.0;
+
+interface NativeFaceDetector {
+  detect(source: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const clampRegion = ({ x, y, width, height }: FrameRegion): FrameRegion => {
+  const left = clamp01(x);
+  const top = clamp01(y);
+  return { x: left, y: top, width: clamp01(x + width) - left, height: clamp01(y + height) - top };
+};
+
+/** Grows a region by `ratio` of its size on every side, clamped to the frame. */
+export const padRegion = (region: FrameRegion, ratio: number): FrameRegion => clampRegion({
+  x: region.x - region.width * ratio,
+  y: region.y - region.height * ratio,
+  width: region.width * (1 + 2 * ratio),
+  height: region.height * (1 + 2 * ratio),
+});
+
+/**
+ * Converts a region of the video frame into CSS percentages of an element
+ * that shows the video with `object-fit: cover`.
+ */
+export function coverRegionStyle(region: FrameRegion, videoWidth: number, videoHeight: number, boxWidth: number, boxHeight: number) {
+  const scale = Math.max(boxWidth / videoWidth, boxHeight / videoHeight);
+  const offsetX = (boxWidth - videoWidth * scale) / 2;
+  const offsetY = (boxHeight - videoHeight * scale) / 2;
+  const pct = (value: number, total: number) => `${(value / total) * 100}%`;
+  return {
+    left: pct(offsetX + region.x * videoWidth * scale, boxWidth),
+    top: pct(offsetY + region.y * videoHeight * scale, boxHeight),
+    width: pct(region.width * videoWidth * scale, boxWidth),
+    height: pct(region.height * videoHeight * scale, boxHeight),
+  };
+}
+
+/**
+ * Coarse fallback for browsers without the Shape Detection API: bounds the
+ * largest concentration of skin-toned pixels (YCbCr thresholds) by its mean
+ * and spread. Good enough to follow a single face against a typical background.
+ */
+export function detectSkinRegion(pixels: Uint8ClampedArray, width: number, height: number): FrameRegion | null {
+  let count = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0;
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const i = (py * width + px) * 4;
+      const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2];
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+      const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+      if (luma < 60 || cr < 135 || cr > 180 || cb < 85 || cb > 135) continue;
+      count++;
+      sumX += px; sumY += py;
+      sumXX += px * px; sumYY += py * py;
+    }
+  }
+  if (count < width * height * MIN_SKIN_RATIO) return null;
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  const spreadX = Math.sqrt(Math.max(0, sumXX / count - meanX * meanX)) * SKIN_SPREAD_X;
+  const spreadY = Math.sqrt(Math.max(0, sumYY / count - meanY * meanY)) * SKIN_SPREAD_Y;
+  return clampRegion({
+    x: (meanX - spreadX) / width,
+    y: (meanY - spreadY) / height,
+    width: (2 * spreadX) / width,
+    height: (2 * spreadY) / height,
+  });
+}
+
+/**
+ * Follows the subject's face in a playing video. Uses the browser's
+ * FaceDetector where available and a skin-tone heuristic otherwise; both run
+ * on a small local canvas. Reports a smoothed box, or null once the face has
+ * been missing for a few detections.
+ */
+export class FaceTracker {
+  private canvas = document.createElement('canvas');
+  private ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+  private detector: NativeFaceDetector | null = null;
+  private timer: number | null = null;
+  private busy = false;
+  private region: FrameRegion | null = null;
+  private misses = 0;
+
+  constructor(private onFace: (region: FrameRegion | null) => void) {
+    const FaceDetectorCtor = (window as any).FaceDetector;
+    if (FaceDetectorCtor) {
+      try {
+        this.detector = new FaceDetectorCtor({ fastMode: true, maxDetectedFaces: 1 });
+      } catch (e) {
+        console.warn('FaceDetector unavailable, using skin-tone tracking', e);
+      }
+    }
+  }
+
+  public start(video: HTMLVideoElement) {
+    this.stop();
+    this.timer = window.setInterval(() => {
+      if (this.busy) return;
+      this.busy = true;
+      this.detect(video).finally(() => { this.busy = false; });
+    }, DETECT_INTERVAL);
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.region = null;
+    this.misses = 0;
+  }
+
+  private async detect(video: HTMLVideoElement) {
+    const { videoWidth: w, videoHeight: h } = video;
+    if (!this.ctx || !w || !h || video.paused) return;
+    this.canvas.width = DETECT_WIDTH;
+    this.canvas.height = Math.round((DETECT_WIDTH * h) / w);
+    this.ctx.drawImage(video, 0, 0, this.canvas.width, this.canvas.height);
+
+    let found: FrameRegion | null = null;
+    if (this.detector) {
+      try {
+        const [face] = await this.detector.detect(this.canvas);
+        if (face) {
+          const box = face.boundingBox;
+          found = clampRegion({
+            x: box.x / this.canvas.width,
+            y: box.y / this.canvas.height,
+            width: box.width / this.canvas.width,
+            height: box.height / this.canvas.height,
+          });
+        }
+      } catch (e) {
+        console.warn('Face detection failed, falling back to skin-tone tracking', e);
+        this.detector = null;
+      }
+    }
+    if (!this.detector) {
+      const pixels = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height).data;
+      found = detectSkinRegion(pixels, this.canvas.width, this.canvas.height);
+    }
+    // stop() may have run while the detector was busy
+    if (this.timer === null) return;
+    this.update(found);
+  }
+
+  private update(found: FrameRegion | null) {
+    if (!found) {
+      if (this.region && ++this.misses >= MAX_MISSES) {
+        this.region = null;
+        this.onFace(null);
+      }
+      return;
+    }
+    this.misses = 0;
+    const prev = this.region;
+    const mix = (a: number, b: number) => prev ? a * (1 - SMOOTHING) + b * SMOOTHING : b;
+    this.region = prev ? {
+      x: mix(prev.x, found.x),
+      y: mix(prev.y, found.y),
+      width: mix(prev.width, found.width),
+      height: mix(prev.height, found.height),
+    } : found;
+    this.onFace(this.region);
+  }
+}
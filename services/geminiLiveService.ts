@@ -1,114 +1,305 @@
 
-import { GoogleGenAI, LiveServerMessage } from '@google/genai';
-import { createPcmBlob, decodeAudioData, base64ToUint8Array } from './audioUtils';
+import { FunctionCall, FunctionDeclaration, GoogleGenAI, LiveServerMessage, Modality, Session, Type } from '@google/genai';
+import { createPcmBlob } from './audioUtils';
+import { AudioCapture, AudioChunk, CAPTURE_SAMPLE_RATE } from './audioCapture';
+import { AudioOutput, AudioOutputSettings, BARGE_IN_RMS, DEFAULT_AUDIO_OUTPUT } from './audioOutput';
+import { ProsodyAnalyzer } from './prosody';
+import { FrameRegion } from './rppg';
+import { VideoStreamer, VideoStreamSettings, VideoStreamStats } from './videoStreamer';
+import { errorFromClose, SessionError, toSessionError } from './sessionErrors';
+import { createGeminiClient, CredentialSettings, DEFAULT_CREDENTIALS } from './credentials';
+import { buildSystemInstruction, DEFAULT_PROMPT_SETTINGS, PromptSettings, speakerNote, VIDEO_ASSESSMENT_REQUEST } from './promptTemplate';
+import { isMultiSpeaker } from './participants';
+import { DEFAULT_TEXT_CHAT, GENERATE_MODEL, GenerateChat, TextChatSettings } from './textChat';
+import { AnalysisProvider, capturesAudio, capturesVideo, DiagnosticCallback, LogCallback } from './analysisProvider';
+import { AnalysisModality, Participant, SubjectBaseline, Verdict, VocalFeatures } from '../types';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// Native-audio models can only answer in audio; text-only output needs a half-cascade model
+export const TEXT_LIVE_MODEL = 'gemini-live-2.5-flash-preview';
+// Video-only sessions have no speech to start a turn, so ask for a verdict on this cadence
+const VIDEO_ASSESSMENT_INTERVAL = 8000;
+// A socket error is normally followed by a close that carries the code; report the error alone if none arrives
+const ERROR_CLOSE_GRACE = 2000;
+
+export interface GeminiLiveOptions {
+  model?: string;
+  /** Model used when the output mode is text-only. */
+  textModel?: string;
+  /** Model for typed statements sent over generateContent. */
+  generateModel?: string;
+  /** Builds the API client; defaults to the credentials set with `setCredentials`. */
+  createClient?: () => GoogleGenAI | Promise<GoogleGenAI>;
+}
+
+export const REPORT_VERDICT: FunctionDeclaration = {
+  name: 'report_verdict',
+  description: '提交对受审者最近一次陈述的结构化测谎判定。每次判定都必须调用。',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      deceptionRate: { type: Type.INTEGER, description: '欺骗率，0-100 的整数' },
+      confidence: { type: Type.INTEGER, description: '判定置信度，0-100 的整数' },
+      cues: { type: Type.ARRAY, items: { type: Type.STRING }, description: '观察到的线索，例如 停顿、眼神游离、声音颤抖' },
+      reasoning: { type: Type.STRING, description: '一句话判断依据' },
+    },
+    required: ['deceptionRate', 'confidence', 'cues', 'reasoning'],
+  },
+};
+
+const clampPercent = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) return null;
+  return Math.round(Math.max(0, Math.min(100, num)));
+};
+
+/** Validates report_verdict arguments; returns null if the call carries no usable rate. */
+export function parseVerdictArgs(args: Record<string, unknown> | undefined): Verdict | null {
+  const deceptionRate = clampPercent(args?.deceptionRate);
+  if (deceptionRate === null) return null;
+  return {
+    deceptionRate,
+    confidence: clampPercent(args?.confidence) ?? 0,
+    cues: Array.isArray(args?.cues) ? args!.cues.filter((c): c is string => typeof c === 'string' && c.trim() !== '') : [],
+    reasoning: typeof args?.reasoning === 'string' ? args.reasoning.trim() : '',
+  };
+}
 
-export class GeminiLiveService {
+export class GeminiLiveService implements AnalysisProvider {
+  public readonly id = 'gemini' as const;
+  public readonly label = 'Gemini Live';
+  private readonly audioModel: string;
+  private readonly textModel: string;
+  private readonly generateModel: string;
+  private readonly createClient: () => GoogleGenAI | Promise<GoogleGenAI>;
+  private credentials: CredentialSettings = DEFAULT_CREDENTIALS;
   private ai: GoogleGenAI | null = null;
   private sessionPromise: Promise<any> | null = null;
-  private inputAudioContext: AudioContext | null = null;
-  private outputAudioContext: AudioContext | null = null;
-  private inputSource: MediaStreamAudioSourceNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private nextStartTime = 0;
-  private sources = new Set<AudioBufferSourceNode>();
-  private onLogCallback: ((text: string, isModel: boolean, isTurnComplete?: boolean) => void) | null = null;
-  private onDisconnectCallback: (() => void) | null = null;
+  private audioCapture = new AudioCapture(chunk => this.sendAudioChunk(chunk));
+  private prosody = new ProsodyAnalyzer(features => this.onVocalFeaturesCallback?.(features), CAPTURE_SAMPLE_RATE);
+  private audioOutput = new AudioOutput();
+  private outputSettings: AudioOutputSettings = DEFAULT_AUDIO_OUTPUT;
+  // Output mode of the current connection; the settings may change before the next one
+  private textOutput = false;
+  private onLogCallback: LogCallback | null = null;
+  private onDisconnectCallback: ((error: SessionError) => void) | null = null;
+  private onDiagnosticCallback: DiagnosticCallback | null = null;
+  // Channels whose last send failed; only the first failure of a run is reported
+  private failingChannels = new Set<string>();
   private onVolumeCallback: ((volume: number) => void) | null = null;
+  private onVerdictCallback: ((verdict: Verdict) => void) | null = null;
+  private onVocalFeaturesCallback: ((features: VocalFeatures) => void) | null = null;
+  private onVideoStatsCallback: ((stats: VideoStreamStats) => void) | null = null;
+  private baseline: SubjectBaseline | null = null;
+  private promptSettings: PromptSettings = DEFAULT_PROMPT_SETTINGS;
+  private modality: AnalysisModality = 'audio-video';
+  private participants: Participant[] = [];
+  private textChat: TextChatSettings = DEFAULT_TEXT_CHAT;
+  // Set instead of a Live session when typed statements go through generateContent
+  private generateChat: GenerateChat | null = null;
+  // Settles the sendText call waiting for the end of the model's reply
+  private pendingReply: (() => void) | null = null;
+  private activeSpeaker: Participant | null = null;
+  private assessmentInterval: number | null = null;
   
-  // Video streaming
-  private videoInterval: number | null = null;
+  // Video streaming; frames are only sent once the session has resolved
+  private session: Session | null = null;
+  private videoStreamer = new VideoStreamer(
+    base64Jpeg => this.sendVideoFrame(base64Jpeg),
+    () => this.sendBacklog(),
+    stats => this.onVideoStatsCallback?.(stats),
+  );
+
+  // Session resumption: latest handle from the server, and a counter so that
+  // callbacks from a superseded or intentionally closed connection are ignored.
+  private resumptionHandle: string | null = null;
+  private connectionId = 0;
+
+  constructor(options: GeminiLiveOptions = {}) {
+    this.audioModel = options.model ?? LIVE_MODEL;
+    this.textModel = options.textModel ?? TEXT_LIVE_MODEL;
+    this.generateModel = options.generateModel ?? GENERATE_MODEL;
+    this.createClient = options.createClient ?? (() => createGeminiClient(this.credentials));
+  }
+
+  public get model() {
+    if (this.usesGenerate) return this.generateModel;
+    return this.outputSettings.mode === 'text' ? this.textModel : this.audioModel;
+  }
 
-  constructor() {}
+  private get usesGenerate() {
+    return this.modality === 'text' && this.textChat.transport === 'generate';
+  }
 
-  public setOnLog(callback: (text: string, isModel: boolean, isTurnComplete?: boolean) => void) {
+  public setOnLog(callback: LogCallback) {
     this.onLogCallback = callback;
   }
 
-  public setOnDisconnect(callback: () => void) {
+  public setOnDisconnect(callback: (error: SessionError) => void) {
     this.onDisconnectCallback = callback;
   }
 
+  public setOnDiagnostic(callback: DiagnosticCallback) {
+    this.onDiagnosticCallback = callback;
+  }
+
+  public setCredentials(credentials: CredentialSettings) {
+    this.credentials = credentials;
+  }
+
   public setOnVolume(callback: (volume: number) => void) {
     this.onVolumeCallback = callback;
   }
 
+  public setOnVerdict(callback: (verdict: Verdict) => void) {
+    this.onVerdictCallback = callback;
+  }
+
+  public setOnVocalFeatures(callback: (features: VocalFeatures) => void) {
+    this.onVocalFeaturesCallback = callback;
+  }
+
+  /** Subject baseline to include in the system instruction of the next connect. */
+  public setBaseline(baseline: SubjectBaseline | null) {
+    this.baseline = baseline;
+  }
+
+  /** Persona, language and criteria used to build the system instruction of the next connect. */
+  public setPromptSettings(settings: PromptSettings) {
+    this.promptSettings = settings;
+  }
+
+  /** Streams to send from the next connect; the system instruction only describes cues that are available. */
+  public setModality(modality: AnalysisModality) {
+    this.modality = modality;
+  }
+
+  /** Transport for typed statements from the next connect. */
+  public setTextChat(settings: TextChatSettings) {
+    this.textChat = settings;
+  }
+
+  public setParticipants(participants: Participant[]) {
+    this.participants = participants;
+  }
+
+  public setActiveSpeaker(speaker: Participant | null) {
+    const changed = speaker?.id !== this.activeSpeaker?.id;
+    this.activeSpeaker = speaker;
+    if (changed && this.session) this.sendSpeakerNote(this.session);
+  }
+
+  public setOnVideoStats(callback: (stats: VideoStreamStats) => void) {
+    this.onVideoStatsCallback = callback;
+  }
+
+  public setFaceRegion(region: FrameRegion | null) {
+    this.videoStreamer.setCropRegion(region);
+  }
+
+  public setVideoSettings(settings: VideoStreamSettings) {
+    this.videoStreamer.setSettings(settings);
+  }
+
+  /** Volume and gating apply at once; mode and voice from the next connect. */
+  public setAudioOutput(settings: AudioOutputSettings) {
+    this.outputSettings = settings;
+    this.audioOutput.setSettings(settings);
+  }
+
   public async connect(
     stream: MediaStream, 
     videoElement: HTMLVideoElement,
-    canvasElement: HTMLCanvasElement
+    canvasElement: HTMLCanvasElement,
+    resume: boolean = false
   ): Promise<void> {
     
-    // Always create a new instance to ensure fresh API key and state
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    if (!resume) this.resumptionHandle = null;
+    const connectionId = ++this.connectionId;
+    const notifyDisconnect = (error: SessionError) => {
+      if (connectionId !== this.connectionId) return;
+      this.connectionId++;
+      this.settleReply();
+      this.onDisconnectCallback?.(error);
+    };
+    this.failingChannels.clear();
 
-    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    // Ensure contexts are running (browser requires user gesture, which we have via the Start button)
-    if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
-    if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+    // Ephemeral tokens are only accepted by the Live API
+    if (this.usesGenerate && this.credentials.mode === 'token-proxy') {
+      throw new SessionError('auth', 'generateContent needs an API key', { messageKey: 'errorGenerateNeedsKey' });
+    }
+
+    // Always create a new instance to ensure fresh credentials and state; proxy tokens are single-use
+    try {
+      this.ai = await this.createClient();
+    } catch (e) {
+      this.onDiagnosticCallback?.('credentials-failed', e instanceof Error ? e.message : String(e));
+      throw toSessionError(e);
+    }
+    this.onDiagnosticCallback?.('credentials', this.credentials.mode);
+    // disconnect() was called while the token was being fetched
+    if (connectionId !== this.connectionId) return;
+
+    // Typed statements over generateContent need no socket; replies are always text
+    if (this.usesGenerate) {
+      const instruction = buildSystemInstruction(this.promptSettings, this.baseline, this.modality, this.participants);
+      this.generateChat = new GenerateChat(this.ai, this.generateModel, instruction, [REPORT_VERDICT], call =>
+        connectionId === this.connectionId ? this.answerToolCall(call) : { error: 'Session ended' });
+      this.onDiagnosticCallback?.('generate-ready', this.generateModel);
+      return;
+    }
 
-    const outputNode = this.outputAudioContext.createGain();
-    outputNode.connect(this.outputAudioContext.destination);
+    this.textOutput = this.outputSettings.mode === 'text';
+    // Text replies are never played, so no AudioContext is held for them
+    if (this.textOutput) this.audioOutput.close();
+    else await this.audioOutput.open();
 
     const config = {
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      model: this.model,
       callbacks: {
         onopen: () => {
           console.log('Gemini Live Connection Opened');
-          this.startAudioStream(stream);
-          this.startVideoStream(videoElement, canvasElement);
+          this.onDiagnosticCallback?.('socket-open', resume ? 'resumed' : undefined);
+          if (capturesAudio(this.modality)) {
+            this.audioCapture.start(stream).catch(e => {
+              console.error('Failed to start audio capture', e);
+              this.onDiagnosticCallback?.('audio-capture-failed', String(e?.message ?? e));
+              notifyDisconnect(new SessionError('media-unavailable', String(e?.message ?? e), { cause: e }));
+            });
+          }
+          if (capturesVideo(this.modality)) this.videoStreamer.start(videoElement, canvasElement);
+          if (this.modality === 'video') {
+            this.assessmentInterval = window.setInterval(() => this.requestAssessment(), VIDEO_ASSESSMENT_INTERVAL);
+          }
         },
         onmessage: async (message: LiveServerMessage) => {
           this.handleServerMessage(message);
         },
         onerror: (e: ErrorEvent) => {
           console.error('Gemini Live Error', e);
-          this.onDisconnectCallback?.();
+          this.onDiagnosticCallback?.('socket-error', e?.message || undefined);
+          window.setTimeout(() => notifyDisconnect(new SessionError('network', e?.message || 'WebSocket error')), ERROR_CLOSE_GRACE);
         },
         onclose: (e: CloseEvent) => {
           console.log('Gemini Live Connection Closed', e);
-          this.onDisconnectCallback?.();
+          this.onDiagnosticCallback?.('socket-close', `${e.code} ${e.reason}`.trim());
+          notifyDisconnect(errorFromClose(e.code, e.reason));
         },
       },
       config: {
-        responseModalities: ['AUDIO'], // Use string literal to avoid runtime enum issues
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-        },
-        systemInstruction: `
-          你是代号"真理之眼 Veritas-V9"的高级战术测谎仪。
-
-          【重要】你的唯一任务是：分析并评判用户说的话是真是假。你不是聊天助手，你不会回答问题，你不会和用户对话。你只会冷酷地分析和评判。
-
-          当用户说任何话时，你必须：
-          1. 分析他们的语气、语速、逻辑、面部表情
-          2. 给出欺骗率评分 (0-100%)
-          3. 简短解释判断依据
-
-          判定标准：
-          - 真话 (0-49%)：语气坚定、逻辑自洽、表情自然
-          - 可疑 (50-75%)：有停顿、逻辑小漏洞、眼神游离、声音与内容不符
-          - 谎言 (76-100%)：明显矛盾、声调颤抖、防御姿态
-
-          输出格式（必须严格遵守）：
-          [欺骗率:XX%] 你的简短分析
-
-          示例输出：
-          - [欺骗率:25%] 陈述清晰，语气稳定，判定为真实。
-          - [欺骗率:65%] 声音有些犹豫，与陈述内容不符，存在疑点。
-          - [欺骗率:85%] 明显的逻辑漏洞，声音颤抖，高度可能在说谎。
-
-          【禁止行为】
-          - 禁止回答用户的问题
-          - 禁止与用户闲聊
-          - 禁止提供帮助或建议
-          - 只能输出测谎分析结果
-
-          现在开始监控目标。
-        `,
+        responseModalities: [this.textOutput ? Modality.TEXT : Modality.AUDIO],
+        // Text replies arrive as model turn parts, so there is no voice and nothing to transcribe
+        ...(this.textOutput ? {} : {
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: this.outputSettings.voice } },
+          },
+          outputAudioTranscription: {},
+        }),
+        systemInstruction: buildSystemInstruction(this.promptSettings, this.baseline, this.modality, this.participants),
+        tools: [{ functionDeclarations: [REPORT_VERDICT] }],
         inputAudioTranscription: {}, 
-        outputAudioTranscription: {}, 
+        // Ask the server for resumption handles; pass the last one back on reconnect so the model keeps its context
+        sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
       },
     };
 
@@ -117,132 +308,220 @@ export class GeminiLiveService {
         try {
             this.sessionPromise = this.ai.live.connect(config);
             // Wait for connection to establish before resolving
-            await this.sessionPromise;
+            const session = await this.sessionPromise;
+            if (connectionId === this.connectionId) {
+              this.session = session;
+              // A fresh (or resumed) context does not know who is talking until told
+              this.sendSpeakerNote(session);
+            }
         } catch (e) {
             console.error("Connection failed initially:", e);
-            throw e; // Re-throw to be caught by App.tsx
+            this.onDiagnosticCallback?.('connect-failed', e instanceof Error ? e.message : String(e));
+            throw toSessionError(e); // Re-throw to be caught by App.tsx
         }
     }
   }
 
-  private startAudioStream(stream: MediaStream) {
-    if (!this.inputAudioContext) return;
+  // Chunks arrive from the capture worklet already resampled to 16 kHz Int16
+  private sendAudioChunk({ pcm, rms }: AudioChunk) {
+    this.onVolumeCallback?.(rms * 100); // Scale roughly 0-100
+    // While the model is audible the mic mostly hears the model itself; loud speech counts as the subject cutting in
+    if (this.outputSettings.echoGate && this.audioOutput.playing) {
+      if (!this.outputSettings.bargeIn || rms < BARGE_IN_RMS) return;
+      this.audioOutput.interrupt();
+      this.onDiagnosticCallback?.('barge-in', rms.toFixed(2));
+    }
+    this.prosody.push(pcm);
+
+    const pcmBlob = createPcmBlob(pcm, CAPTURE_SAMPLE_RATE);
+
+    // Only send if session exists and is resolved.
+    // We use .then() to ensure we wait for the handshake to complete if it's still pending (though connect awaits it).
+    this.sessionPromise?.then((session) => {
+      try {
+          session.sendRealtimeInput({ media: pcmBlob });
+          this.sendResult('audio');
+      } catch (e) {
+          // Expected while the session is closing; recorded in case it is not
+          this.sendResult('audio', e);
+      }
+    }).catch(() => {
+      // The failed connect has already been reported
+    });
+  }
 
-    this.inputSource = this.inputAudioContext.createMediaStreamSource(stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
+  private sendVideoFrame(base64Jpeg: string): boolean {
+    if (!this.session) return false;
+    try {
+      this.session.sendRealtimeInput({ media: { data: base64Jpeg, mimeType: 'image/jpeg' } });
+      this.sendResult('video');
+      return true;
+    } catch (e) {
+      this.sendResult('video', e);
+      return false;
+    }
+  }
 
-    this.processor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      
-      // Calculate Volume for UI
-      if (this.onVolumeCallback) {
-        let sum = 0;
-        for (let i = 0; i < inputData.length; i++) {
-          sum += inputData[i] * inputData[i];
-        }
-        const rms = Math.sqrt(sum / inputData.length);
-        this.onVolumeCallback(rms * 100); // Scale roughly 0-100
+  private requestAssessment() {
+    try {
+      this.session?.sendClientContent({ turns: VIDEO_ASSESSMENT_REQUEST[this.promptSettings.language], turnComplete: true });
+      this.sendResult('text');
+    } catch (e) {
+      this.sendResult('text', e);
+    }
+  }
+
+  public async sendText(text: string): Promise<void> {
+    if (this.generateChat) return this.generateReply(this.generateChat, text);
+    const session = this.session;
+    if (!session) throw new SessionError('network', 'Not connected');
+    this.onLogCallback?.(text, false);
+    await new Promise<void>((resolve, reject) => {
+      this.settleReply();
+      this.pendingReply = resolve;
+      try {
+        session.sendClientContent({ turns: text, turnComplete: true });
+        this.sendResult('text');
+      } catch (e) {
+        this.sendResult('text', e);
+        this.pendingReply = null;
+        reject(toSessionError(e));
       }
+    });
+  }
 
-      const pcmBlob = createPcmBlob(inputData);
-      
-      // Only send if session exists and is resolved. 
-      // We use .then() to ensure we wait for the handshake to complete if it's still pending (though connect awaits it).
-      this.sessionPromise?.then((session) => {
-        try {
-            session.sendRealtimeInput({ media: pcmBlob });
-        } catch (e) {
-            // This is expected if session is closing or network glitch
-            // console.warn("Failed to send audio input", e);
-        }
-      }).catch(e => {
-        // Swallow errors if session promise failed (e.g. disconnect happened)
-      });
-    };
+  private async generateReply(chat: GenerateChat, text: string) {
+    const connectionId = this.connectionId;
+    this.onLogCallback?.(text, false);
+    let reply: string;
+    try {
+      reply = await chat.send(text);
+      this.sendResult('text');
+    } catch (e) {
+      this.sendResult('text', e);
+      throw toSessionError(e);
+    }
+    if (connectionId !== this.connectionId) return;
+    if (reply) this.onLogCallback?.(reply, true);
+    this.onLogCallback?.('', true, true);
+  }
 
-    this.inputSource.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
-  }
-
-  private startVideoStream(videoEl: HTMLVideoElement, canvasEl: HTMLCanvasElement) {
-    const ctx = canvasEl.getContext('2d');
-    if (!ctx) return;
-
-    // Send frames at ~1 fps to save bandwidth but keep context
-    this.videoInterval = window.setInterval(() => {
-        if (!videoEl.videoWidth || !videoEl.videoHeight) return;
-        
-        canvasEl.width = videoEl.videoWidth / 2; // Downscale slightly for perf
-        canvasEl.height = videoEl.videoHeight / 2;
-        ctx.drawImage(videoEl, 0, 0, canvasEl.width, canvasEl.height);
-
-        const base64Data = canvasEl.toDataURL('image/jpeg', 0.6).split(',')[1];
-        
-        this.sessionPromise?.then((session) => {
-            try {
-                session.sendRealtimeInput({
-                    media: { data: base64Data, mimeType: 'image/jpeg' }
-                });
-            } catch (e) {
-                 // console.warn("Failed to send video input", e);
-            }
-        }).catch(() => {});
+  private settleReply() {
+    this.pendingReply?.();
+    this.pendingReply = null;
+  }
 
-    }, 1000); 
+  private sendSpeakerNote(session: Session) {
+    if (!this.activeSpeaker || !isMultiSpeaker(this.participants)) return;
+    try {
+      session.sendClientContent({ turns: speakerNote(this.activeSpeaker, this.participants, this.promptSettings.language), turnComplete: false });
+      this.sendResult('text');
+    } catch (e) {
+      this.sendResult('text', e);
+    }
+  }
+
+  private sendResult(channel: 'audio' | 'video' | 'text' | 'tool', error?: unknown) {
+    if (error === undefined) {
+      this.failingChannels.delete(channel);
+      return;
+    }
+    if (this.failingChannels.has(channel)) return;
+    this.failingChannels.add(channel);
+    this.onDiagnosticCallback?.('send-failed', `${channel}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // The SDK does not expose the socket's send queue; read it from the browser WebSocket it wraps
+  private sendBacklog(): number {
+    const conn: object | undefined = this.session?.conn;
+    if (!conn || !('ws' in conn) || !(conn.ws instanceof WebSocket)) return 0;
+    return conn.ws.bufferedAmount;
   }
 
   private async handleServerMessage(message: LiveServerMessage) {
+    // 0. Track session resumption state
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+        this.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+    }
+    if (message.goAway) {
+        console.warn('Gemini Live server going away in', message.goAway.timeLeft);
+        this.onDiagnosticCallback?.('go-away', message.goAway.timeLeft);
+    }
+
+    // Structured verdicts via function calling
+    if (message.toolCall?.functionCalls?.length) {
+        this.handleToolCalls(message.toolCall.functionCalls);
+    }
+
     const isTurnComplete = message.serverContent?.turnComplete || false;
 
     // 1. Handle User Input Transcription (So user knows they are heard)
-    if (message.serverContent?.inputTranscription && this.onLogCallback) {
-        this.onLogCallback(message.serverContent.inputTranscription.text, false, isTurnComplete);
+    if (message.serverContent?.inputTranscription?.text) {
+        this.onLogCallback?.(message.serverContent.inputTranscription.text, false);
     }
 
     // 2. Handle Model Output Transcription (Analysis)
-    if (message.serverContent?.outputTranscription && this.onLogCallback) {
-        this.onLogCallback(message.serverContent.outputTranscription.text, true, isTurnComplete);
+    if (message.serverContent?.outputTranscription?.text) {
+        this.onLogCallback?.(message.serverContent.outputTranscription.text, true);
     }
     
-    // 3. Handle Audio Output
-    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-    
-    if (base64Audio && this.outputAudioContext) {
-      if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
-
-      this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
-      
-      const audioBuffer = await decodeAudioData(
-        base64ToUint8Array(base64Audio),
-        this.outputAudioContext,
-        24000,
-        1
-      );
-
-      const source = this.outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      const outputNode = this.outputAudioContext.createGain();
-      outputNode.connect(this.outputAudioContext.destination);
-      source.connect(outputNode);
-      
-      source.addEventListener('ended', () => {
-        this.sources.delete(source);
-      });
-
-      source.start(this.nextStartTime);
-      this.nextStartTime += audioBuffer.duration;
-      this.sources.add(source);
+    // 3. Handle Model Output: text parts in text-only mode, audio otherwise
+    const parts = message.serverContent?.modelTurn?.parts ?? [];
+    if (this.textOutput) {
+      const text = parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+      if (text) this.onLogCallback?.(text, true);
+    } else {
+      for (const part of parts) {
+        if (part.inlineData?.data) await this.audioOutput.play(part.inlineData.data);
+      }
     }
 
-    // Handle Interruption
+    // Handle Interruption: drop what is queued so the model falls silent at once
     if (message.serverContent?.interrupted) {
-      this.sources.forEach(source => source.stop());
-      this.sources.clear();
-      this.nextStartTime = 0;
+      this.audioOutput.interrupt();
+      this.onDiagnosticCallback?.('interrupted');
+    }
+
+    // The end of the model's turn usually arrives on its own, after the last transcript chunk
+    if (isTurnComplete) {
+      this.onLogCallback?.('', true, true);
+      this.settleReply();
     }
   }
 
+  // Reports a valid verdict and returns what to tell the model
+  private answerToolCall(call: FunctionCall): Record<string, unknown> {
+    if (call.name !== REPORT_VERDICT.name) return { error: `Unknown function ${call.name}` };
+    const verdict = parseVerdictArgs(call.args);
+    if (!verdict) return { error: 'deceptionRate must be a number between 0 and 100' };
+    this.onVerdictCallback?.(verdict);
+    return { output: 'recorded' };
+  }
+
+  private handleToolCalls(calls: FunctionCall[]) {
+    const functionResponses = calls.map(call => ({ id: call.id, name: call.name, response: this.answerToolCall(call) }));
+
+    // The model waits for a response before it continues the turn
+    this.sessionPromise?.then((session) => {
+      try {
+          session.sendToolResponse({ functionResponses });
+          this.sendResult('tool');
+      } catch (e) {
+          console.warn('Failed to send tool response', e);
+          this.sendResult('tool', e);
+      }
+    }).catch(() => {});
+  }
+
+  public async rebindStream(stream: MediaStream) {
+    // The capture graph is bound to the track that existed when it started; frames are read from the video element
+    if (this.session && capturesAudio(this.modality)) await this.audioCapture.start(stream);
+  }
+
   public async disconnect() {
+    // Invalidate callbacks of the current connection so an intentional close is not reported as a drop
+    this.connectionId++;
+
     // 1. Close session if it exists
     if (this.sessionPromise) {
         try {
@@ -256,20 +535,23 @@ export class GeminiLiveService {
     }
 
     // 2. Clean up audio/video resources
-    this.processor?.disconnect();
-    this.inputSource?.disconnect();
-    this.inputAudioContext?.close();
-    this.outputAudioContext?.close();
+    this.audioCapture.stop();
+    // The subject's last statement has no trailing silence to end it; report it before clearing
+    this.prosody.flush();
+    this.prosody.reset();
+    this.audioOutput.close();
     
-    if (this.videoInterval) {
-        clearInterval(this.videoInterval);
-        this.videoInterval = null;
+    this.videoStreamer.stop();
+    if (this.assessmentInterval) {
+        clearInterval(this.assessmentInterval);
+        this.assessmentInterval = null;
     }
 
     // 3. Reset state
+    this.settleReply();
+    this.generateChat = null;
     this.sessionPromise = null;
-    this.inputAudioContext = null;
-    this.outputAudioContext = null;
+    this.session = null;
     this.ai = null;
   }
 }
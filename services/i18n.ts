@@ -0,0 +1,583 @@
+import { createContext, useContext } from 'react';
+
+export type Locale = 'zh' | 'en';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh', label: '中文' },
+  { id: 'en', label: 'English' },
+];
+
+const zh = {
+  appTitle: '神经测谎仪',
+  systemStatus: '系统状态 / SYSTEM STATUS',
+  standby: '系统待机...',
+  analyzing: '数据分析中...',
+  awaitingData: '等待数据流...',
+  speakerSubject: '受审者',
+  speakerSystem: 'V9_系统',
+
+  privacyTitle: '隐私声明',
+  privacyBody: '本应用将通过摄像头和麦克风采集数据进行分析。',
+  privacyDemo: '⚠️ 这是演示应用，结果仅供娱乐',
+  backend: '分析后端 / BACKEND',
+  calibrationToggle: '先进行基线校准（对照问题） / BASELINE CALIBRATION',
+  calibrationNeedsAudio: '基线校准需要麦克风',
+  calibrationNeedsLive: '基线校准需要现场回答对照问题',
+  mediaSource: '输入源 / SOURCE',
+  sourceCamera: '改用摄像头',
+  chooseFile: '选择录制文件…',
+  seekHint: '点击跳转到录像中的这一时刻',
+  modality: '分析模态 / MODALITY',
+  modalityAudioVideo: '音视频 / AUDIO + VIDEO',
+  modalityAudio: '纯音频（电话模式） / AUDIO ONLY',
+  modalityVideo: '纯视频 / VIDEO ONLY',
+  modalityText: '文字 / TEXT CHAT',
+  cancel: '取消',
+  continue: '继续',
+
+  liveLog: '实时日志 / LIVE_LOG',
+  trend: '欺骗率趋势 / TREND',
+  bioMetrics: '生物遥测 / BIO_METRICS',
+  heartRate: '心率 / BPM',
+  hrCritical: '危急',
+  hrElevated: '升高',
+  hrNormal: '正常',
+  hrMeasured: '实测 / rPPG',
+  hrSimulated: '模拟 / SIM',
+  signalQuality: '信号质量',
+  simulatedTag: '模拟 / SIM',
+  stress: '皮质醇 / STRESS',
+  stressShort: '压力',
+  sessionStats: '会话统计 / SESSION_STATS',
+  statDuration: '时长:',
+  statAverage: '平均:',
+  statStatements: '发言:',
+  statAnalyses: '分析:',
+  deceptionRate: '欺骗概率 / DECEPTION RATE',
+  confidence: '置信度 / CONFIDENCE',
+  veracityGraph: '真实度趋势 / VERACITY_GRAPH',
+  tooltipRate: '欺骗率',
+  vocalFeatures: '声学特征 / VOCAL',
+  vocalPitch: '基频 F0',
+  vocalRate: '语速',
+  vocalRateUnit: '音节/秒',
+  vocalJitter: '频率抖动',
+  vocalShimmer: '振幅微颤',
+  vocalPauses: '停顿',
+  vocalVoiced: '浊音比',
+
+  verdictStandby: '待机',
+  verdictAnalyzing: '分析中',
+
+  logCalibration: '校准',
+  logRawRate: '原始',
+  logConfidence: '置信度',
+  logInitCalibrating: '系统初始化完成，神经链路已建立。开始基线校准...',
+  logInitMonitoring: '系统初始化完成，神经链路已建立。开始监控...',
+  logConnectionLost: '连接已断开 / CONNECTION LOST',
+  logReconnecting: '链路中断，{seconds}秒后重连 ({attempt}/{max}) / LINK LOST, RECONNECTING',
+  logLinkRestored: '神经链路已恢复，继续监控 / LINK RESTORED',
+  logMediaEnded: '录制文件播放完毕，等待最后的判定后可结束会话 / RECORDING FINISHED',
+  logTextFailed: '陈述发送失败，队列已清空 / SEND FAILED: {error}',
+  textPlaceholder: '输入受审者的陈述，Enter 发送，Shift+Enter 换行',
+  textSend: '发送 / SEND',
+  textQueued: '{count} 条待分析',
+  logQuestion: '问题 {index}/{total}: {text}',
+  logPlanComplete: '问题脚本已完成 / PLAN COMPLETE',
+  logCalibrationQuestion: '校准问题 {index}/{total}: {text}',
+  logBaselineDone: '基线校准完成：真话 {truth}% / 谎言 {lie}%，音量 {truthVolume} / {lieVolume}',
+  logBaselineSkipped: '校准数据不足，使用原始评分 / CALIBRATION SKIPPED',
+  baselineReady: '基线已校准，开始监控...',
+
+  interviewPlan: '问题脚本 / INTERVIEW_PLAN',
+  removePlan: '移除脚本 / REMOVE',
+  planInvalid: '脚本解析失败 / INVALID PLAN: {error}',
+  planLoaded: '已加载脚本: {title} ({count} 题)',
+  startPlan: '开始提问 / START PLAN',
+  endPlan: '结束脚本 / END PLAN',
+  nextQuestion: '下一题 ({index}/{total}) / NEXT',
+  loadPlan: '问题脚本 / PLAN',
+  changePlan: '更换脚本 / PLAN',
+
+  participantsPanel: '参与者 / PARTICIPANTS',
+  activeSpeaker: '点击或按数字键切换当前发言人',
+  notScored: '不评分',
+  retagSpeaker: '更正发言人',
+  participantAvg: '均',
+  participantPeak: '峰',
+
+  calibrationQuestionName: '请如实说出你的名字',
+  calibrationQuestionCity: '请如实说出你现在所在的城市',
+  calibrationQuestionAgeLie: '请故意谎报你的年龄',
+  calibrationQuestionClothesLie: '请谎称你今天衣服的颜色',
+  calibrationType: '对照类型',
+  expectedTruth: '真话 / TRUTH',
+  expectedLie: '谎言 / LIE',
+  verdictsCollected: '已采集判定',
+  calibrationNext: '下一题 / NEXT',
+  calibrationFinish: '完成 / FINISH',
+  calibrationSkip: '跳过 / SKIP',
+
+  replayMode: 'REPLAY MODE / 回放',
+  reconnectPreserved: '链路恢复中，记录已保留 / SESSION DATA PRESERVED',
+  logsButton: '日志',
+  archiveButton: '历史 / ARCHIVE',
+  settingsButton: '设置 / SETTINGS',
+  exitReplayPrefix: '退出回放 / ',
+  disconnectPrefix: '中止连接 / ',
+  initializePrefix: '启动 / ',
+
+  exportButton: '导出 / EXPORT',
+  exportJson: 'JSON / 存档',
+  exportCsv: 'CSV / 判定表',
+  exportMarkdown: 'MARKDOWN / 报告',
+  exportHtml: 'HTML / 报告',
+
+  libraryTitle: '历史会话 / SESSION_ARCHIVE',
+  librarySearch: '搜索标题或记录 / SEARCH',
+  libraryImport: '导入 / IMPORT',
+  libraryEmpty: '暂无会话记录 / NO SESSIONS',
+  libraryLoadFailed: '读取失败 / LOAD FAILED: {error}',
+  libraryImportFailed: '导入失败 / IMPORT FAILED: {error}',
+  libraryRenameFailed: '重命名失败 / RENAME FAILED: {error}',
+  libraryDeleteFailed: '删除失败 / DELETE FAILED: {error}',
+  librarySave: '保存 / SAVE',
+  libraryRename: '重命名 / RENAME',
+  libraryDelete: '删除 / DELETE',
+  libraryConfirmDelete: '再次点击确认删除 / CLICK AGAIN TO DELETE',
+  libraryReplay: '回放 / REPLAY',
+  sessionStatsLine: '平均 {avg}% · 峰值 {max}% · {count} 条判定',
+
+  devicesButton: '设备',
+  devicesTitle: '设备 / DEVICES',
+  devicesRefresh: '刷新设备列表',
+  devicesNote: '所选设备保存在本机，下次启动会话时使用。',
+  devicesLiveNote: '会话进行中：切换设备会立即替换会话中的音视频轨道。',
+  defaultDevice: '系统默认',
+  camera: '摄像头',
+  microphone: '麦克风',
+  micLevel: '输入电平',
+  mediaErrorPermission: '摄像头或麦克风权限被拒绝。请点击地址栏中的摄像头图标允许访问，然后重试。',
+  mediaErrorInsecure: '浏览器只在 HTTPS 或 localhost 下开放摄像头和麦克风。请通过安全地址打开本页面。',
+  mediaErrorNotFound: '没有找到摄像头或麦克风。请连接设备，或在启动前选择纯音频 / 纯视频模式。',
+  mediaErrorUnavailable: '之前选择的设备已不可用。请在“设备”中重新选择。',
+  mediaErrorInUse: '设备正被其他程序占用（例如视频会议软件）。请关闭该程序后重试。',
+  mediaErrorUnknown: '无法打开摄像头或麦克风。请在“设备”中检查设备后重试。',
+  logCameraSwitched: '已切换摄像头 / CAMERA SWITCHED',
+  logMicrophoneSwitched: '已切换麦克风 / MICROPHONE SWITCHED',
+  errorAuth: 'API 密钥无效或无权访问该模型。请检查密钥后重新开始。',
+  errorQuota: 'API 配额或速率限制已用尽。请稍后再试，或检查项目的计费设置。',
+  errorNetwork: '网络连接中断。请检查网络后重新开始。',
+  errorModel: '模型服务关闭了连接。可复制诊断信息查看关闭代码与原因。',
+  errorUnknown: '会话意外结束。请重新开始；如反复出现，请复制诊断信息反馈。',
+  copyDiagnostics: '复制诊断信息',
+  diagnosticsCopied: '已复制诊断信息',
+  errorNoApiKey: '尚未输入 API 密钥。请在“设置 → 接口凭据”中输入密钥或改用令牌代理，或使用离线模拟后端。',
+  errorGenerateNeedsKey: '文字会话的确定性模式通过 generateContent 调用，只能使用 API 密钥，令牌代理不可用。',
+  errorTokenProxy: '无法从令牌代理获取令牌。请确认已运行 npm run proxy，且代理地址正确。',
+  credentials: '接口凭据',
+  credentialMode: '凭据来源',
+  credentialApiKey: '手动输入 API 密钥',
+  credentialProxy: '本地令牌代理',
+  apiKey: 'API 密钥',
+  apiKeyPlaceholder: '粘贴 Gemini API 密钥',
+  saveApiKey: '保存',
+  clearApiKey: '清除',
+  apiKeyNote: '密钥只保存在当前标签页的会话存储中，关闭标签页即清除，不会写入构建产物或本地设置。',
+  proxyUrl: '代理地址',
+  proxyNote: '每次连接都会向代理申请一次性临时令牌，真实密钥只保存在运行代理的服务器上。',
+  audioOutput: '模型语音输出',
+  outputMode: '输出方式',
+  outputSpoken: '语音播报',
+  outputDucked: '低音量播报',
+  outputText: '仅文字',
+  outputVoice: '音色',
+  outputVolume: '音量',
+  echoGate: '模型说话时暂停麦克风上传',
+  bargeIn: '允许受审者打断模型',
+  outputTextNote: '仅文字模式使用非原生音频模型，模型不再发声，判定只以文字显示。',
+  textChat: '文字会话 / TEXT CHAT',
+  textTransport: '发送方式',
+  transportLive: 'Live 会话',
+  transportGenerate: '确定性（generateContent）',
+  textSplitLines: '粘贴多行时逐行分析',
+  textTransportNote: '确定性模式以温度 0 和固定种子调用，同样的文字得到一致的判定，便于比较；判定只以文字显示。',
+
+  settingsTitle: '设置 / SETTINGS',
+  settingsNote: '提示词相关设置在下次启动会话时生效。',
+  uiLanguage: '界面语言 / UI LANGUAGE',
+  outputLanguage: '判定语言 / OUTPUT LANGUAGE',
+  persona: '角色 / PERSONA',
+  strictness: '严格程度 / STRICTNESS',
+  strictnessLenient: '宽松',
+  strictnessStandard: '标准',
+  strictnessStrict: '严格',
+  faceCrop: '发送面部裁剪画面 / FACE CROP',
+  videoStream: '视频推流 / VIDEO STREAM',
+  videoPreset: '预设 / PRESET',
+  presetSaver: '省流',
+  presetBalanced: '均衡',
+  presetDetail: '高清',
+  presetCustom: '自定义',
+  videoFps: '帧率 / FPS',
+  videoResolution: '分辨率 / RESOLUTION',
+  videoQuality: '画质 / QUALITY',
+  videoAdaptive: '自适应（网络拥堵时降低画质）',
+  videoMotion: '动作触发（静止时跳帧，动作时连发）',
+  scoringBands: '评分区间 / SCORING BANDS',
+  bandThreshold: '起始 ≥',
+  bandLabel: '名称',
+  bandCriteria: '判定依据',
+  addBand: '添加区间 / ADD',
+  removeBand: '删除区间',
+  resetBands: '恢复默认 / RESET',
+  participants: '参与者 / PARTICIPANTS',
+  participantName: '姓名（可选）',
+  roleInterviewer: '审讯员',
+  roleSubject: '受审者',
+  addSubject: '受审者 / SUBJECT',
+  addInterviewer: '审讯员 / INTERVIEWER',
+  removeParticipant: '删除参与者',
+  participantsNote: '多于一人时，会话中需标记当前发言人；审讯员的发言不参与评分。',
+  batchButton: '批量 / BATCH',
+  batchTitle: '文稿批量分析 / TRANSCRIPT_BATCH',
+  batchPlaceholder: '粘贴文稿：每行"姓名: 陈述"，或 SRT 字幕、JSON',
+  batchOpenFile: '打开文件 / OPEN FILE',
+  batchFormat: '格式 / FORMAT',
+  formatText: '纯文本',
+  formatSrt: 'SRT 字幕',
+  formatJson: 'JSON',
+  batchStatements: '{count} 条陈述',
+  batchParseFailed: '无法解析文稿 / PARSE FAILED: {error}',
+  transcriptEmpty: '文稿中没有陈述',
+  transcriptNotArray: 'JSON 文稿必须是陈述数组',
+  transcriptStatementNoText: '第 {index} 条陈述没有文本',
+  batchRun: '开始分析 / ANALYZE',
+  batchStop: '停止 / STOP',
+  batchProgress: '分析中 {done}/{total}',
+  batchFailed: '分析中止 / ANALYSIS STOPPED: {error}',
+  batchStatementFailed: '分析失败 / ANALYSIS FAILED: {error}',
+  batchSummary: '已评分 {scored} · 平均 {avg}% · 峰值 {max}% · 失败 {failed}',
+  batchDistribution: '欺骗率分布 / DISTRIBUTION',
+  batchSuspicious: '最可疑陈述 / MOST SUSPICIOUS',
+  batchColSpeaker: '发言人',
+  batchColStatement: '陈述',
+  batchColRate: '欺骗率',
+  batchSave: '存入历史 / SAVE',
+  batchSaved: '已保存 / SAVED',
+  batchSaveFailed: '保存失败 / SAVE FAILED: {error}',
+  batchOpen: '查看 / VIEW',
+  batchOfflineNote: '离线演示后端：按措辞启发式评分，不调用模型。',
+  analyticsButton: '分析 / ANALYTICS',
+  analyticsTitle: '会话分析 / SESSION_ANALYTICS',
+  analyticsTimeline: '完整趋势 / FULL TIMELINE',
+  analyticsRolling: '滑动平均 / ROLLING AVG',
+  analyticsWindow: '{count} 个采样',
+  analyticsDuration: '时长',
+  analyticsVerdicts: '判定数',
+  analyticsAvg: '平均',
+  analyticsMin: '最低',
+  analyticsMax: '最高',
+  analyticsTransitions: '区间切换',
+  analyticsBandTime: '各区间停留时间 / TIME IN BAND',
+  analyticsHistogram: '判定分布 / VERDICT DISTRIBUTION',
+  analyticsCues: '线索频次 / CUE FREQUENCY',
+  analyticsCueAvg: '平均 {rate}%',
+  analyticsNoCues: '判定理由中未提及已知线索',
+  analyticsEmpty: '暂无趋势数据',
+};
+
+export type MessageKey = keyof typeof zh;
+
+const en: Record<MessageKey, string> = {
+  appTitle: 'NEUROPOLYGRAPH',
+  systemStatus: 'SYSTEM STATUS',
+  standby: 'System standby...',
+  analyzing: 'Analyzing...',
+  awaitingData: 'Awaiting data stream...',
+  speakerSubject: 'SUBJECT',
+  speakerSystem: 'V9_SYSTEM',
+
+  privacyTitle: 'Privacy notice',
+  privacyBody: 'This app captures camera and microphone data for analysis.',
+  privacyDemo: '⚠️ Demo application — results are for entertainment only',
+  backend: 'BACKEND',
+  calibrationToggle: 'Run baseline calibration first (control questions)',
+  calibrationNeedsAudio: 'Baseline calibration needs the microphone',
+  calibrationNeedsLive: 'Baseline calibration needs live answers to the control questions',
+  mediaSource: 'SOURCE',
+  sourceCamera: 'Use camera',
+  chooseFile: 'Choose recording…',
+  seekHint: 'Click to jump to this moment in the recording',
+  modality: 'MODALITY',
+  modalityAudioVideo: 'Audio + video',
+  modalityAudio: 'Audio only (phone call)',
+  modalityVideo: 'Video only',
+  modalityText: 'Text chat',
+  cancel: 'Cancel',
+  continue: 'Continue',
+
+  liveLog: 'LIVE_LOG',
+  trend: 'TREND',
+  bioMetrics: 'BIO_METRICS',
+  heartRate: 'BPM',
+  hrCritical: 'CRITICAL',
+  hrElevated: 'ELEVATED',
+  hrNormal: 'NORMAL',
+  hrMeasured: 'rPPG',
+  hrSimulated: 'SIMULATED',
+  signalQuality: 'Signal',
+  simulatedTag: 'SIM',
+  stress: 'STRESS',
+  stressShort: 'Stress',
+  sessionStats: 'SESSION_STATS',
+  statDuration: 'Time:',
+  statAverage: 'Avg:',
+  statStatements: 'Said:',
+  statAnalyses: 'Verdicts:',
+  deceptionRate: 'DECEPTION RATE',
+  confidence: 'CONFIDENCE',
+  veracityGraph: 'VERACITY_GRAPH',
+  tooltipRate: 'Deception',
+  vocalFeatures: 'VOCAL',
+  vocalPitch: 'F0',
+  vocalRate: 'Rate',
+  vocalRateUnit: 'syl/s',
+  vocalJitter: 'Jitter',
+  vocalShimmer: 'Shimmer',
+  vocalPauses: 'Pauses',
+  vocalVoiced: 'Voiced',
+
+  verdictStandby: 'STANDBY',
+  verdictAnalyzing: 'ANALYZING',
+
+  logCalibration: 'Calibration',
+  logRawRate: 'raw',
+  logConfidence: 'confidence',
+  logInitCalibrating: 'System initialized, neural link established. Starting baseline calibration...',
+  logInitMonitoring: 'System initialized, neural link established. Monitoring...',
+  logConnectionLost: 'CONNECTION LOST',
+  logReconnecting: 'Link lost, reconnecting in {seconds}s ({attempt}/{max})',
+  logLinkRestored: 'Link restored, monitoring resumed',
+  logMediaEnded: 'Recording finished; end the session once the last verdict is in',
+  logTextFailed: 'Statement could not be sent; queue cleared: {error}',
+  textPlaceholder: 'Type the subject statement; Enter sends, Shift+Enter adds a line',
+  textSend: 'SEND',
+  textQueued: '{count} waiting for analysis',
+  logQuestion: 'Question {index}/{total}: {text}',
+  logPlanComplete: 'Interview plan complete',
+  logCalibrationQuestion: 'Calibration question {index}/{total}: {text}',
+  logBaselineDone: 'Baseline calibrated: truth {truth}% / lie {lie}%, volume {truthVolume} / {lieVolume}',
+  logBaselineSkipped: 'Not enough calibration data, using raw scores',
+  baselineReady: 'Baseline calibrated, monitoring...',
+
+  interviewPlan: 'INTERVIEW_PLAN',
+  removePlan: 'Remove plan',
+  planInvalid: 'Invalid plan: {error}',
+  planLoaded: 'Plan loaded: {title} ({count} questions)',
+  startPlan: 'START PLAN',
+  endPlan: 'END PLAN',
+  nextQuestion: 'NEXT ({index}/{total})',
+  loadPlan: 'PLAN',
+  changePlan: 'CHANGE PLAN',
+
+  participantsPanel: 'PARTICIPANTS',
+  activeSpeaker: 'Click or press a number key to tag who is speaking',
+  notScored: 'not scored',
+  retagSpeaker: 'Correct the speaker',
+  participantAvg: 'avg',
+  participantPeak: 'peak',
+
+  calibrationQuestionName: 'State your name truthfully',
+  calibrationQuestionCity: 'State the city you are in',
+  calibrationQuestionAgeLie: 'Deliberately lie about your age',
+  calibrationQuestionClothesLie: 'Lie about the colour of your clothes',
+  calibrationType: 'Control type',
+  expectedTruth: 'TRUTH',
+  expectedLie: 'LIE',
+  verdictsCollected: 'verdicts collected',
+  calibrationNext: 'NEXT',
+  calibrationFinish: 'FINISH',
+  calibrationSkip: 'SKIP',
+
+  replayMode: 'REPLAY MODE',
+  reconnectPreserved: 'SESSION DATA PRESERVED',
+  logsButton: 'LOG',
+  archiveButton: 'ARCHIVE',
+  settingsButton: 'SETTINGS',
+  exitReplayPrefix: '',
+  disconnectPrefix: '',
+  initializePrefix: '',
+
+  exportButton: 'EXPORT',
+  exportJson: 'JSON archive',
+  exportCsv: 'CSV verdicts',
+  exportMarkdown: 'Markdown report',
+  exportHtml: 'HTML report',
+
+  libraryTitle: 'SESSION_ARCHIVE',
+  librarySearch: 'Search titles and transcripts',
+  libraryImport: 'IMPORT',
+  libraryEmpty: 'No sessions yet',
+  libraryLoadFailed: 'Load failed: {error}',
+  libraryImportFailed: 'Import failed: {error}',
+  libraryRenameFailed: 'Rename failed: {error}',
+  libraryDeleteFailed: 'Delete failed: {error}',
+  librarySave: 'Save',
+  libraryRename: 'Rename',
+  libraryDelete: 'Delete',
+  libraryConfirmDelete: 'Click again to delete',
+  libraryReplay: 'Replay',
+  sessionStatsLine: 'AVG {avg}% · PEAK {max}% · {count} VERDICTS',
+
+  devicesButton: 'Devices',
+  devicesTitle: 'DEVICES',
+  devicesRefresh: 'Refresh device list',
+  devicesNote: 'The selected devices are remembered on this computer and used from the next session.',
+  devicesLiveNote: 'Session running: changing a device replaces its track in the live session immediately.',
+  defaultDevice: 'System default',
+  camera: 'Camera',
+  microphone: 'Microphone',
+  micLevel: 'Input level',
+  mediaErrorPermission: 'Camera or microphone access was denied. Click the camera icon in the address bar to allow access, then retry.',
+  mediaErrorInsecure: 'Browsers only expose the camera and microphone over HTTPS or on localhost. Open this page from a secure address.',
+  mediaErrorNotFound: 'No camera or microphone was found. Connect one, or choose audio-only / video-only mode before starting.',
+  mediaErrorUnavailable: 'The previously selected device is no longer available. Pick another one under Devices.',
+  mediaErrorInUse: 'The device is in use by another application (for example a video-call app). Close it and retry.',
+  mediaErrorUnknown: 'The camera or microphone could not be opened. Check them under Devices and retry.',
+  logCameraSwitched: 'Camera switched',
+  logMicrophoneSwitched: 'Microphone switched',
+  errorAuth: 'The API key is invalid or has no access to this model. Check the key and start again.',
+  errorQuota: 'The API quota or rate limit is exhausted. Try again later or check the project billing.',
+  errorNetwork: 'The network connection dropped. Check your connection and start again.',
+  errorModel: 'The model service closed the connection. Copy the diagnostics to see the close code and reason.',
+  errorUnknown: 'The session ended unexpectedly. Start again; if it keeps happening, copy the diagnostics into a report.',
+  copyDiagnostics: 'Copy diagnostics',
+  diagnosticsCopied: 'Diagnostics copied',
+  errorNoApiKey: 'No API key has been entered. Enter one under Settings → Credentials, switch to the token proxy, or use the offline mock backend.',
+  errorGenerateNeedsKey: 'Deterministic text sessions call generateContent, which needs an API key; the token proxy cannot be used.',
+  errorTokenProxy: 'Could not get a token from the token proxy. Check that npm run proxy is running and the proxy URL is correct.',
+  credentials: 'Credentials',
+  credentialMode: 'Source',
+  credentialApiKey: 'Enter API key',
+  credentialProxy: 'Local token proxy',
+  apiKey: 'API key',
+  apiKeyPlaceholder: 'Paste a Gemini API key',
+  saveApiKey: 'Save',
+  clearApiKey: 'Clear',
+  apiKeyNote: 'The key stays in session storage for this tab only and is gone when the tab closes. It is never written to the build or to saved settings.',
+  proxyUrl: 'Proxy URL',
+  proxyNote: 'Each connection asks the proxy for a single-use ephemeral token; the real key stays on the machine running the proxy.',
+  audioOutput: 'Model voice output',
+  outputMode: 'Output',
+  outputSpoken: 'Spoken',
+  outputDucked: 'Ducked (quiet)',
+  outputText: 'Text only',
+  outputVoice: 'Voice',
+  outputVolume: 'Volume',
+  echoGate: 'Pause mic upload while the model speaks',
+  bargeIn: 'Let the subject interrupt the model',
+  outputTextNote: 'Text-only mode uses a non-native-audio model; the model stays silent and verdicts appear as text only.',
+  textChat: 'TEXT CHAT',
+  textTransport: 'Transport',
+  transportLive: 'Live session',
+  transportGenerate: 'Deterministic (generateContent)',
+  textSplitLines: 'Analyze pasted lines one by one',
+  textTransportNote: 'Deterministic mode calls the model at temperature 0 with a fixed seed, so identical text gets consistent verdicts for comparison; replies are text only.',
+
+  settingsTitle: 'SETTINGS',
+  settingsNote: 'Prompt settings apply from the next session.',
+  uiLanguage: 'UI LANGUAGE',
+  outputLanguage: 'OUTPUT LANGUAGE',
+  persona: 'PERSONA',
+  strictness: 'STRICTNESS',
+  strictnessLenient: 'Lenient',
+  strictnessStandard: 'Standard',
+  strictnessStrict: 'Strict',
+  faceCrop: 'SEND FACE-CROPPED FRAMES',
+  videoStream: 'VIDEO STREAM',
+  videoPreset: 'PRESET',
+  presetSaver: 'Data saver',
+  presetBalanced: 'Balanced',
+  presetDetail: 'Detail',
+  presetCustom: 'Custom',
+  videoFps: 'FPS',
+  videoResolution: 'RESOLUTION',
+  videoQuality: 'QUALITY',
+  videoAdaptive: 'Adaptive (lower quality when the link backs up)',
+  videoMotion: 'Motion-triggered (skip still frames, burst on movement)',
+  scoringBands: 'SCORING BANDS',
+  bandThreshold: 'From ≥',
+  bandLabel: 'Label',
+  bandCriteria: 'Criteria',
+  addBand: 'ADD BAND',
+  removeBand: 'Remove band',
+  resetBands: 'RESET',
+  participants: 'PARTICIPANTS',
+  participantName: 'Name (optional)',
+  roleInterviewer: 'Interviewer',
+  roleSubject: 'Subject',
+  addSubject: 'SUBJECT',
+  addInterviewer: 'INTERVIEWER',
+  removeParticipant: 'Remove participant',
+  participantsNote: 'With more than one person, tag who is speaking during the session; the interviewer is never scored.',
+  batchButton: 'BATCH',
+  batchTitle: 'TRANSCRIPT_BATCH',
+  batchPlaceholder: 'Paste a transcript: "Name: statement" per line, or SRT subtitles, or JSON',
+  batchOpenFile: 'OPEN FILE',
+  batchFormat: 'FORMAT',
+  formatText: 'Plain text',
+  formatSrt: 'SRT subtitles',
+  formatJson: 'JSON',
+  batchStatements: '{count} statements',
+  batchParseFailed: 'Could not parse transcript: {error}',
+  transcriptEmpty: 'the transcript contains no statements',
+  transcriptNotArray: 'a JSON transcript must be an array of statements',
+  transcriptStatementNoText: 'statement {index} has no text',
+  batchRun: 'ANALYZE',
+  batchStop: 'STOP',
+  batchProgress: 'Analyzing {done}/{total}',
+  batchFailed: 'Analysis stopped: {error}',
+  batchStatementFailed: 'Analysis failed: {error}',
+  batchSummary: 'Scored {scored} · avg {avg}% · peak {max}% · failed {failed}',
+  batchDistribution: 'DISTRIBUTION',
+  batchSuspicious: 'MOST SUSPICIOUS',
+  batchColSpeaker: 'Speaker',
+  batchColStatement: 'Statement',
+  batchColRate: 'Deception',
+  batchSave: 'SAVE',
+  batchSaved: 'SAVED',
+  batchSaveFailed: 'Could not save: {error}',
+  batchOpen: 'VIEW',
+  batchOfflineNote: 'Offline demo backend: heuristic scores from wording, no model calls.',
+  analyticsButton: 'ANALYTICS',
+  analyticsTitle: 'SESSION_ANALYTICS',
+  analyticsTimeline: 'FULL TIMELINE',
+  analyticsRolling: 'ROLLING AVG',
+  analyticsWindow: '{count} samples',
+  analyticsDuration: 'Duration',
+  analyticsVerdicts: 'Verdicts',
+  analyticsAvg: 'Average',
+  analyticsMin: 'Min',
+  analyticsMax: 'Max',
+  analyticsTransitions: 'Band changes',
+  analyticsBandTime: 'TIME IN BAND',
+  analyticsHistogram: 'VERDICT DISTRIBUTION',
+  analyticsCues: 'CUE FREQUENCY',
+  analyticsCueAvg: 'avg {rate}%',
+  analyticsNoCues: 'No known cues mentioned in the verdict reasoning',
+  analyticsEmpty: 'No trend data yet',
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { zh, en };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export function createTranslator(locale: Locale): Translate {
+  return (key, params) =>
+    MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name) => params?.[name] !== undefined ? String(params[name]) : match);
+}
+
+export const I18nContext = createContext<{ locale: Locale; t: Translate }>({ locale: 'zh', t: createTranslator('zh') });
+
+export const useI18n = () => useContext(I18nContext);
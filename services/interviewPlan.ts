@@ -0,0 +1,88 @@
+import { InterviewPlan, InterviewQuestion, VerdictRecord } from '../types';
+
+export interface QuestionSummary {
+  question: InterviewQuestion;
+  verdictCount: number;
+  avgRate: number | null;
+  maxRate: number | null;
+}
+
+const toQuestion = (item: unknown, index: number): InterviewQuestion => {
+  if (typeof item === 'string' && item.trim()) return { id: `q${index + 1}`, text: item.trim() };
+  if (item && typeof item === 'object') {
+    const { id, text, question } = item as Record<string, unknown>;
+    const body = typeof text === 'string' ? text : typeof question === 'string' ? question : '';
+    if (body.trim()) return { id: typeof id === 'string' && id.trim() ? id.trim() : `q${index + 1}`, text: body.trim() };
+  }
+  throw new Error(`Question ${index + 1} has no text`);
+};
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+/**
+ * Minimal YAML reader for plan files: an optional `title:` line and a list of
+ * `- question` items, or `- id: x` / `text: y` mappings. Anything fancier should
+ * be written as JSON.
+ */
+function parseYamlPlan(text: string): unknown {
+  let title: string | undefined;
+  const items: (string | Record<string, string>)[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '').trimEnd();
+    if (!line.trim() || line.trim().startsWith('#') || line.trim() === 'questions:') continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item) {
+      const pair = item[1].match(/^(\w+)\s*:\s*(.*)$/);
+      if (pair) {
+        current = { [pair[1]]: unquote(pair[2]) };
+        items.push(current);
+      } else {
+        current = null;
+        items.push(unquote(item[1]));
+      }
+      continue;
+    }
+
+    const pair = line.match(/^(\s*)(\w+)\s*:\s*(.*)$/);
+    if (!pair) throw new Error(`Cannot parse line: ${line.trim()}`);
+    if (pair[1] && current) current[pair[2]] = unquote(pair[3]);
+    else if (pair[2] === 'title') title = unquote(pair[3]);
+  }
+  return { title, questions: items };
+}
+
+/** Parses a JSON or simple YAML interview plan. Throws with a readable message on bad input. */
+export function parseInterviewPlan(text: string, fileName = ''): InterviewPlan {
+  const trimmed = text.trim();
+  const data: unknown = /^[[{]/.test(trimmed) ? JSON.parse(trimmed) : parseYamlPlan(trimmed);
+  const list = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(list) || list.length === 0) throw new Error('Plan contains no questions');
+
+  const questions = list.map(toQuestion);
+  const seen = new Set<string>();
+  questions.forEach(q => {
+    if (seen.has(q.id)) throw new Error(`Duplicate question id "${q.id}"`);
+    seen.add(q.id);
+  });
+
+  const title = !Array.isArray(data) && typeof (data as { title?: unknown }).title === 'string'
+    ? (data as { title: string }).title
+    : fileName.replace(/\.[^.]+$/, '') || '问题脚本';
+  return { title, questions };
+}
+
+/** Aggregates the verdicts recorded while each question was active. */
+export function summarizeQuestions(plan: InterviewPlan, verdicts: VerdictRecord[]): QuestionSummary[] {
+  return plan.questions.map(question => {
+    const rates = verdicts.filter(v => v.questionId === question.id).map(v => v.rate);
+    return {
+      question,
+      verdictCount: rates.length,
+      avgRate: rates.length ? Math.round(rates.reduce((sum, r) => sum + r, 0) / rates.length) : null,
+      maxRate: rates.length ? rates.reduce((a, b) => Math.max(a, b)) : null,
+    };
+  });
+}
@@ -0,0 +1,84 @@
+import { MessageKey } from './i18n';
+
+export interface DeviceSelection {
+  // Null follows the browser's default device
+  cameraId: string | null;
+  microphoneId: string | null;
+}
+
+export interface MediaDeviceList {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+}
+
+/** A getUserMedia failure, with the message key that tells the user how to fix it. */
+export class MediaDeviceError extends Error {
+  constructor(public readonly key: MessageKey, public readonly cause?: unknown) {
+    super(cause instanceof Error ? cause.message : String(key));
+    this.name = 'MediaDeviceError';
+  }
+}
+
+/** Maps getUserMedia's DOMException names to actionable messages. */
+export function describeMediaError(err: unknown): MessageKey {
+  const name = (err as { name?: string })?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return 'mediaErrorPermission';
+    case 'SecurityError':
+      return 'mediaErrorInsecure';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return 'mediaErrorNotFound';
+    case 'OverconstrainedError':
+      return 'mediaErrorUnavailable';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'mediaErrorInUse';
+    default:
+      return navigator.mediaDevices ? 'mediaErrorUnknown' : 'mediaErrorInsecure';
+  }
+}
+
+/** Lists cameras and microphones; labels stay empty until the user has granted access once. */
+export async function listMediaDevices(): Promise<MediaDeviceList> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    cameras: devices.filter(d => d.kind === 'videoinput'),
+    microphones: devices.filter(d => d.kind === 'audioinput'),
+  };
+}
+
+const deviceConstraint = (id: string | null): MediaTrackConstraints | true => id ? { deviceId: { exact: id } } : true;
+
+/** Opens the selected devices, wrapping failures in MediaDeviceError. */
+export async function openMediaStream(selection: DeviceSelection, video: boolean, audio: boolean): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) throw new MediaDeviceError('mediaErrorInsecure');
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: video && deviceConstraint(selection.cameraId),
+      audio: audio && deviceConstraint(selection.microphoneId),
+    });
+  } catch (err) {
+    throw new MediaDeviceError(describeMediaError(err), err);
+  }
+}
+
+/**
+ * Swaps the stream's track of the same kind for one from another device and
+ * stops the old one. The stream object stays the same, so everything holding
+ * it keeps working once it rebinds its audio/video sources.
+ */
+export async function switchDevice(stream: MediaStream, kind: 'audio' | 'video', deviceId: string | null): Promise<void> {
+  const selection: DeviceSelection = kind === 'audio' ? { cameraId: null, microphoneId: deviceId } : { cameraId: deviceId, microphoneId: null };
+  const replacement = await openMediaStream(selection, kind === 'video', kind === 'audio');
+  const [track] = kind === 'audio' ? replacement.getAudioTracks() : replacement.getVideoTracks();
+  const old = kind === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks();
+  old.forEach(t => {
+    stream.removeTrack(t);
+    t.stop();
+  });
+  stream.addTrack(track);
+}
@@ -0,0 +1,101 @@
+const AUDIO_EXTENSIONS = /\.(wav|mp3|m4a|aac|ogg|oga|flac)$/i;
+
+/** True for files that carry no picture, so the session runs audio-only. */
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+
+/** Position in a recording as m:ss (or h:mm:ss for long recordings). */
+export function formatMediaTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Plays a recorded file in a media element and exposes its decoded audio as
+ * a MediaStream, so a recording goes through the same capture path as a
+ * microphone: the AudioWorklet resamples it to 16 kHz PCM and frames are
+ * grabbed from the element. Playback runs in real time; the caller starts it
+ * once the session is ready.
+ */
+export class MediaFileSource {
+  private context: AudioContext | null = null;
+  // A media element can only ever be attached to one source node, so it is kept for reuse
+  private element: HTMLMediaElement | null = null;
+  private source: MediaElementAudioSourceNode | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private url: string | null = null;
+  private onEnded: (() => void) | null = null;
+
+  public get loaded() {
+    return this.url !== null;
+  }
+
+  public async open(file: File, element: HTMLMediaElement, onEnded: () => void): Promise<MediaStream> {
+    this.close();
+    if (this.element !== element) {
+      this.context?.close().catch(() => {});
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.source = this.context.createMediaElementSource(element);
+      this.element = element;
+    }
+    const context = this.context!;
+    if (context.state === 'suspended') await context.resume();
+    // Sessions stop their stream's tracks when they end, so every file gets a fresh destination
+    this.destination = context.createMediaStreamDestination();
+
+    this.url = URL.createObjectURL(file);
+    element.srcObject = null;
+    element.src = this.url;
+    // Audio is routed through the graph, so the element must not be muted for it to reach the capture
+    element.muted = false;
+    await new Promise<void>((resolve, reject) => {
+      element.onloadedmetadata = () => resolve();
+      element.onerror = () => reject(new Error(`Cannot decode ${file.name}`));
+    });
+    element.onloadedmetadata = null;
+    element.onerror = null;
+
+    this.onEnded = onEnded;
+    element.addEventListener('ended', this.handleEnded);
+    // One branch feeds the analysis, the other lets the reviewer listen along
+    this.source!.connect(this.destination);
+    this.source!.connect(context.destination);
+    return this.destination.stream;
+  }
+
+  public play() {
+    this.element?.play().catch(e => console.warn('Playback failed', e));
+  }
+
+  public pause() {
+    this.element?.pause();
+  }
+
+  /** Moves playback to `seconds`; the session keeps analyzing from there. */
+  public seek(seconds: number) {
+    if (this.element && this.loaded) this.element.currentTime = seconds;
+  }
+
+  /** Current playback position, or null when no file is loaded. */
+  public currentTime(): number | null {
+    return this.element && this.loaded ? this.element.currentTime : null;
+  }
+
+  public close() {
+    if (!this.url || !this.element) return;
+    this.element.removeEventListener('ended', this.handleEnded);
+    this.element.pause();
+    this.element.removeAttribute('src');
+    this.element.load();
+    this.element.muted = true;
+    this.source?.disconnect();
+    this.destination = null;
+    URL.revokeObjectURL(this.url);
+    this.url = null;
+    this.onEnded = null;
+  }
+
+  private handleEnded = () => this.onEnded?.();
+}
@@ -0,0 +1,322 @@
+import { AnalysisModality, Participant, SessionArchive, SubjectBaseline, Verdict, VocalFeatures } from '../types';
+import { AnalysisProvider, DiagnosticCallback, LogCallback } from './analysisProvider';
+import { AudioOutputSettings } from './audioOutput';
+import { CredentialSettings } from './credentials';
+import { Locale } from './i18n';
+import { PromptSettings, verdictTag } from './promptTemplate';
+import { FrameRegion } from './rppg';
+import { SessionError } from './sessionErrors';
+import { TextChatSettings } from './textChat';
+import { VideoStreamSettings, VideoStreamStats } from './videoStreamer';
+
+export type MockStep =
+  | { delay: number; kind: 'subject'; text: string; vocal?: VocalFeatures }
+  | { delay: number; kind: 'model'; text: string }
+  | { delay: number; kind: 'verdict'; verdict: Verdict };
+
+export const DEFAULT_MOCK_SCRIPT: MockStep[] = [
+  { delay: 1500, kind: 'subject', text: '我的名字叫李明，今年三十二岁。' },
+  { delay: 800, kind: 'verdict', verdict: { deceptionRate: 15, confidence: 82, cues: ['语气平稳', '表情自然'], reasoning: '陈述清晰，语气稳定，判定为真实。' } },
+  { delay: 200, kind: 'model', text: '[欺骗率:15%] 陈述清晰，语气稳定，判定为真实。' },
+  { delay: 2500, kind: 'subject', text: '我……我从来没有见过那个人。' },
+  { delay: 900, kind: 'verdict', verdict: { deceptionRate: 64, confidence: 70, cues: ['停顿', '眼神游离'], reasoning: '回答前明显停顿，眼神游离，存在疑点。' } },
+  { delay: 200, kind: 'model', text: '[欺骗率:64%] 回答前明显停顿，眼神游离，存在疑点。' },
+  { delay: 2500, kind: 'subject', text: '那笔钱是我借给朋友的，他上周就已经还给我了。' },
+  { delay: 900, kind: 'verdict', verdict: { deceptionRate: 87, confidence: 76, cues: ['逻辑矛盾', '声音颤抖', '防御姿态'], reasoning: '时间线前后矛盾，声音颤抖，高度可能在说谎。' } },
+  { delay: 200, kind: 'model', text: '[欺骗率:87%] 时间线前后矛盾，声音颤抖，高度可能在说谎。' },
+  { delay: 2500, kind: 'subject', text: '我昨天晚上一直在家里看书。' },
+  { delay: 900, kind: 'verdict', verdict: { deceptionRate: 38, confidence: 65, cues: ['语速正常'], reasoning: '语速正常，细节合理，倾向真实。' } },
+  { delay: 200, kind: 'model', text: '[欺骗率:38%] 语速正常，细节合理，倾向真实。' },
+];
+
+export const ENGLISH_MOCK_SCRIPT: MockStep[] = [
+  { delay: 1500, kind: 'subject', text: 'My name is Alex Morgan and I am thirty-two.' },
+  { delay: 800, kind: 'verdict', verdict: { deceptionRate: 15, confidence: 82, cues: ['steady tone', 'natural expression'], reasoning: 'Clear statement, steady voice, judged truthful.' } },
+  { delay: 200, kind: 'model', text: '[Deception:15%] Clear statement, steady voice, judged truthful.' },
+  { delay: 2500, kind: 'subject', text: 'I... I have never met that man.' },
+  { delay: 900, kind: 'verdict', verdict: { deceptionRate: 64, confidence: 70, cues: ['pause', 'gaze aversion'], reasoning: 'Noticeable pause before answering and wandering gaze; doubtful.' } },
+  { delay: 200, kind: 'model', text: '[Deception:64%] Noticeable pause before answering and wandering gaze; doubtful.' },
+  { delay: 2500, kind: 'subject', text: 'I lent that money to a friend and he paid me back last week.' },
+  { delay: 900, kind: 'verdict', verdict: { deceptionRate: 87, confidence: 76, cues: ['contradiction', 'trembling voice', 'defensive posture'], reasoning: 'Timeline contradicts itself and the voice trembles; very likely lying.' } },
+  { delay: 200, kind: 'model', text: '[Deception:87%] Timeline contradicts itself and the voice trembles; very likely lying.' },
+  { delay: 2500, kind: 'subject', text: 'I stayed at home reading all last night.' },
+  { delay: 900, kind: 'verdict', verdict: { deceptionRate: 38, confidence: 65, cues: ['normal pace'], reasoning: 'Normal pace and plausible details; leaning truthful.' } },
+  { delay: 200, kind: 'model', text: '[Deception:38%] Normal pace and plausible details; leaning truthful.' },
+];
+
+const MOCK_SCRIPTS: Record<Locale, MockStep[]> = { zh: DEFAULT_MOCK_SCRIPT, en: ENGLISH_MOCK_SCRIPT };
+
+const CHUNK_SIZE = 6;
+const CHUNK_INTERVAL = 120;
+const VOLUME_INTERVAL = 100;
+// Pause before the scripted reply to a typed statement
+const TEXT_REPLY_DELAY = 700;
+
+// Hedges, absolutes and hesitation that push a typed statement's scripted rate up
+const HEDGE_PATTERNS: Record<Locale, RegExp[]> = {
+  zh: [/说实话|老实说|发誓/, /从来没有|从来不|绝对/, /……|\.\.\./, /可能|大概|好像|记不清/],
+  en: [/honestly|to be honest|i swear/i, /\bnever\b|absolutely|definitely/i, /\.\.\./, /\bmaybe\b|i think|i guess|can't recall|don't remember/i],
+};
+const HEDGE_CUES: Record<Locale, string[]> = {
+  zh: ['强调诚实', '绝对化表述', '迟疑', '含糊其辞'],
+  en: ['insists on honesty', 'absolute wording', 'hesitation', 'hedging'],
+};
+
+/** Plausible, repeatable prosody for a scripted line, seeded from its text. */
+function scriptedVocalFeatures(text: string): VocalFeatures {
+  let seed = 0;
+  for (const ch of text) seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+  const rand = () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed / 0x100000000;
+  };
+  // Lines with hesitation marks get longer pauses and more perturbation
+  const hesitant = /……|\.\.\./.test(text);
+  const pauseCount = hesitant ? 2 + Math.floor(rand() * 2) : Math.floor(rand() * 2);
+  const meanPauseMs = pauseCount ? Math.round((hesitant ? 450 : 200) + rand() * 200) : 0;
+  return {
+    durationMs: Math.ceil(text.length / CHUNK_SIZE) * CHUNK_INTERVAL + pauseCount * meanPauseMs,
+    f0Mean: Math.round(150 + rand() * 60),
+    f0Range: Math.round(40 + rand() * (hesitant ? 120 : 50)),
+    jitter: Math.round((0.6 + rand() * (hesitant ? 1.8 : 0.6)) * 100) / 100,
+    shimmer: Math.round((3 + rand() * (hesitant ? 6 : 2)) * 100) / 100,
+    speechRate: Math.round((hesitant ? 2.8 : 4) * 10 + rand() * 10) / 10,
+    pauseCount,
+    meanPauseMs,
+    longestPauseMs: pauseCount ? Math.round(meanPauseMs * (1 + rand() * 0.5)) : 0,
+    voicedRatio: Math.round((0.55 + rand() * 0.2) * 100) / 100,
+  };
+}
+
+/**
+ * Repeatable verdict for a typed statement: a text-seeded base rate, raised
+ * for each kind of hedge it contains and lowered for concrete numbers.
+ */
+export function scriptedTextVerdict(text: string, language: Locale): Verdict {
+  let seed = 0;
+  for (const ch of text) seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+  const cues = HEDGE_PATTERNS[language].flatMap((pattern, i) => pattern.test(text) ? [HEDGE_CUES[language][i]] : []);
+  const specific = /\d/.test(text);
+  const deceptionRate = Math.max(0, Math.min(100, 12 + (seed % 25) + cues.length * 22 - (specific ? 10 : 0)));
+  const reasoning = language === 'zh'
+    ? cues.length ? `措辞中出现${cues.join('、')}，存在疑点。` : specific ? '陈述具体、细节清楚，倾向真实。' : '陈述平实，未见明显疑点。'
+    : cues.length ? `Wording shows ${cues.join(', ')}; doubtful.` : specific ? 'Specific statement with clear details; leaning truthful.' : 'Plain statement with no clear red flags.';
+  return { deceptionRate, confidence: 55 + (seed % 30), cues: specific && !cues.length ? [language === 'zh' ? '细节具体' : 'specific details'] : cues, reasoning };
+}
+
+/**
+ * Builds a script that replays a recorded session: subject lines, model
+ * analyses and structured verdicts in their original order.
+ */
+export function scriptFromArchive(archive: SessionArchive, delay = 1500): MockStep[] {
+  const steps: MockStep[] = [];
+  if (archive.timeline) {
+    archive.timeline.forEach(item => {
+      if (item.kind !== 'turn') return;
+      const { turn } = item;
+      if (turn.subject) steps.push({ delay, kind: 'subject', text: turn.subject, vocal: turn.vocal });
+      if (turn.analysis) steps.push({ delay: 300, kind: 'model', text: turn.analysis });
+      if (turn.verdictSource === 'tool' && turn.rate !== undefined) {
+        steps.push({
+          delay: 300,
+          kind: 'verdict',
+          verdict: { deceptionRate: turn.rawRate ?? turn.rate, confidence: turn.confidence ?? 0, cues: turn.cues ?? [], reasoning: turn.reasoning ?? '' },
+        });
+      }
+    });
+    return steps;
+  }
+  // Archives saved before turns existed
+  archive.logs.forEach(log => {
+    if (log.type === 'neutral') {
+      steps.push({ delay, kind: 'subject', text: log.message, vocal: log.vocal });
+    } else if (log.id.startsWith('verdict-')) {
+      const record = archive.verdicts.find(v => v.logId === log.id);
+      if (record) {
+        steps.push({
+          delay: 300,
+          kind: 'verdict',
+          verdict: { deceptionRate: record.rawRate ?? record.rate, confidence: record.confidence ?? 0, cues: record.cues ?? [], reasoning: record.reasoning },
+        });
+      }
+    } else if (!log.id.startsWith('sys-')) {
+      steps.push({ delay: 300, kind: 'model', text: log.message });
+    }
+  });
+  return steps;
+}
+
+/**
+ * Offline provider that plays a fixed script of transcripts and verdicts.
+ * Needs no API key, network or working media devices; the same script always
+ * produces the same sequence of callbacks.
+ */
+export class MockAnalysisProvider implements AnalysisProvider {
+  public readonly id = 'mock' as const;
+  public readonly label = '离线演示 / MOCK';
+  public readonly model = 'mock-replay';
+  private onLogCallback: LogCallback | null = null;
+  private onVolumeCallback: ((volume: number) => void) | null = null;
+  private onVerdictCallback: ((verdict: Verdict) => void) | null = null;
+  private onVocalFeaturesCallback: ((features: VocalFeatures) => void) | null = null;
+  private timer: number | null = null;
+  private volumeInterval: number | null = null;
+  private speaking = false;
+  private tick = 0;
+  private modality: AnalysisModality = 'audio-video';
+  private language: Locale = 'zh';
+  // Settles the sendText call whose scripted reply is playing
+  private pendingReply: (() => void) | null = null;
+  private script: MockStep[];
+  // A script passed in explicitly is kept regardless of the output language
+  private customScript: boolean;
+
+  constructor(script?: MockStep[], private loop = true) {
+    this.script = script ?? DEFAULT_MOCK_SCRIPT;
+    this.customScript = !!script;
+  }
+
+  public setOnLog(callback: LogCallback) {
+    this.onLogCallback = callback;
+  }
+
+  public setOnVolume(callback: (volume: number) => void) {
+    this.onVolumeCallback = callback;
+  }
+
+  public setOnVerdict(callback: (verdict: Verdict) => void) {
+    this.onVerdictCallback = callback;
+  }
+
+  public setOnVocalFeatures(callback: (features: VocalFeatures) => void) {
+    this.onVocalFeaturesCallback = callback;
+  }
+
+  // The script never drops the connection
+  public setOnDisconnect(_callback: (error: SessionError) => void) {}
+
+  public setOnDiagnostic(_callback: DiagnosticCallback) {}
+
+  public setCredentials(_credentials: CredentialSettings) {}
+
+  public setAudioOutput(_settings: AudioOutputSettings) {}
+
+  public setBaseline(_baseline: SubjectBaseline | null) {}
+
+  public setPromptSettings(settings: PromptSettings) {
+    this.language = settings.language;
+    if (!this.customScript) this.script = MOCK_SCRIPTS[settings.language];
+  }
+
+  // Scripted steps ignore the video, so no frames are streamed
+  public setOnVideoStats(_callback: (stats: VideoStreamStats) => void) {}
+
+  public setFaceRegion(_region: FrameRegion | null) {}
+
+  public setVideoSettings(_settings: VideoStreamSettings) {}
+
+  // The script plays the same steps whatever is captured; in text sessions it is replaced by replies to what is typed
+  public setModality(modality: AnalysisModality) {
+    this.modality = modality;
+  }
+
+  // Typed statements are answered locally either way
+  public setTextChat(_settings: TextChatSettings) {}
+
+  // The script plays regardless of who is tagged as speaking
+  public setParticipants(_participants: Participant[]) {}
+
+  public setActiveSpeaker(_speaker: Participant | null) {}
+
+  public async rebindStream(_stream: MediaStream) {}
+
+  public setScript(script: MockStep[], loop = true) {
+    this.script = script;
+    this.customScript = true;
+    this.loop = loop;
+  }
+
+  public async connect(): Promise<void> {
+    await this.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 300)); // simulated handshake
+    if (this.modality === 'text') return;
+
+    this.volumeInterval = window.setInterval(() => {
+      this.tick++;
+      const volume = this.speaking ? 18 + 12 * Math.abs(Math.sin(this.tick / 3)) : 0.5;
+      this.onVolumeCallback?.(volume);
+    }, VOLUME_INTERVAL);
+
+    this.runStep(0);
+  }
+
+  private runStep(index: number) {
+    if (index >= this.script.length) {
+      if (!this.loop || this.script.length === 0) return;
+      index = 0;
+    }
+    const step = this.script[index];
+    this.timer = window.setTimeout(() => {
+      if (step.kind === 'verdict') {
+        this.onVerdictCallback?.(step.verdict);
+        this.runStep(index + 1);
+      } else {
+        this.speaking = step.kind === 'subject';
+        this.streamText(step.text, step.kind === 'model', () => {
+          this.speaking = false;
+          if (step.kind === 'subject') this.onVocalFeaturesCallback?.(step.vocal ?? scriptedVocalFeatures(step.text));
+          this.runStep(index + 1);
+        });
+      }
+    }, step.delay);
+  }
+
+  public sendText(text: string): Promise<void> {
+    this.settleReply();
+    return new Promise(resolve => {
+      this.pendingReply = resolve;
+      this.onLogCallback?.(text, false);
+      const verdict = scriptedTextVerdict(text, this.language);
+      this.timer = window.setTimeout(() => {
+        this.onVerdictCallback?.(verdict);
+        this.streamText(`${verdictTag(this.language, verdict.deceptionRate)} ${verdict.reasoning}`, true, () => this.settleReply());
+      }, TEXT_REPLY_DELAY);
+    });
+  }
+
+  private settleReply() {
+    this.pendingReply?.();
+    this.pendingReply = null;
+  }
+
+  // Emits text in small chunks like the Live API transcription stream
+  private streamText(text: string, isModel: boolean, done: () => void) {
+    const chunks = text.match(new RegExp(`[\\s\\S]{1,${CHUNK_SIZE}}`, 'g')) ?? [];
+    let i = 0;
+    const next = () => {
+      if (i >= chunks.length) {
+        done();
+        return;
+      }
+      const isLast = i === chunks.length - 1;
+      this.onLogCallback?.(chunks[i++], isModel, isModel && isLast);
+      this.timer = window.setTimeout(next, CHUNK_INTERVAL);
+    };
+    next();
+  }
+
+  public async disconnect() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.volumeInterval) {
+      clearInterval(this.volumeInterval);
+      this.volumeInterval = null;
+    }
+    this.speaking = false;
+    this.settleReply();
+  }
+}
+
+export const mockAnalysis = new MockAnalysisProvider();
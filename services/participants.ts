@@ -0,0 +1,82 @@
+import { Participant, ParticipantRole, VerdictRecord } from '../types';
+import { Locale } from './i18n';
+
+// Line and label colors, picked in order as participants are added
+export const PARTICIPANT_COLORS = ['#00f3ff', '#ff00ff', '#7cff00', '#ffd000', '#ff7a00', '#9d7bff'];
+
+export const MAX_PARTICIPANTS = 6;
+
+/** A single unnamed subject: sessions behave as before until someone else is added. */
+export const DEFAULT_PARTICIPANTS: Participant[] = [
+  { id: 'subject-1', name: '', role: 'subject', color: PARTICIPANT_COLORS[0] },
+];
+
+const ROLE_NAMES: Record<Locale, Record<ParticipantRole, string>> = {
+  zh: { interviewer: '审讯员', subject: '受审者' },
+  en: { interviewer: 'Interviewer', subject: 'Subject' },
+};
+
+/** The participant's name, or its role plus a letter among participants of that role, e.g. "Subject B". */
+export function participantLabel(participant: Participant, participants: Participant[], locale: Locale): string {
+  if (participant.name.trim()) return participant.name.trim();
+  const sameRole = participants.filter(p => p.role === participant.role);
+  const role = ROLE_NAMES[locale][participant.role];
+  if (sameRole.length < 2) return role;
+  const letter = String.fromCharCode(65 + Math.max(0, sameRole.findIndex(p => p.id === participant.id)));
+  return locale === 'zh' ? `${role}${letter}` : `${role} ${letter}`;
+}
+
+export const findParticipant = (participants: Participant[], id?: string): Participant | undefined =>
+  id === undefined ? undefined : participants.find(p => p.id === id);
+
+/** Whether speech by this participant gets a deception rate. Untagged speech is the subject's. */
+export const isScored = (participants: Participant[], id?: string): boolean =>
+  findParticipant(participants, id)?.role !== 'interviewer';
+
+export const scoredParticipants = (participants: Participant[]) => participants.filter(p => p.role === 'subject');
+
+/** Several people are tagged only when more than one is configured. */
+export const isMultiSpeaker = (participants: Participant[]) => participants.length > 1;
+
+export function newParticipant(participants: Participant[], role: ParticipantRole): Participant {
+  const used = new Set(participants.map(p => p.color));
+  return {
+    id: `${role}-${Date.now()}`,
+    name: '',
+    role,
+    color: PARTICIPANT_COLORS.find(c => !used.has(c)) ?? PARTICIPANT_COLORS[participants.length % PARTICIPANT_COLORS.length],
+  };
+}
+
+/** Drops malformed entries and guarantees at least one subject, so there is always someone to score. */
+export function normalizeParticipants(participants: unknown): Participant[] {
+  if (!Array.isArray(participants)) return DEFAULT_PARTICIPANTS;
+  const valid = participants
+    .filter((p): p is Participant => !!p && typeof p.id === 'string' && (p.role === 'interviewer' || p.role === 'subject'))
+    .map((p, i) => ({ id: p.id, name: typeof p.name === 'string' ? p.name : '', role: p.role, color: typeof p.color === 'string' ? p.color : PARTICIPANT_COLORS[i % PARTICIPANT_COLORS.length] }))
+    .filter((p, i, all) => all.findIndex(other => other.id === p.id) === i)
+    .slice(0, MAX_PARTICIPANTS);
+  return valid.some(p => p.role === 'subject') ? valid : DEFAULT_PARTICIPANTS;
+}
+
+export interface ParticipantSummary {
+  participant: Participant;
+  verdictCount: number;
+  avgRate: number | null;
+  maxRate: number | null;
+  lastRate: number | null;
+}
+
+/** Each subject's own verdict history, aggregated. Interviewers have no verdicts and are left out. */
+export function summarizeParticipants(participants: Participant[], verdicts: VerdictRecord[]): ParticipantSummary[] {
+  return scoredParticipants(participants).map(participant => {
+    const rates = verdicts.filter(v => v.speakerId === participant.id).map(v => v.rate);
+    return {
+      participant,
+      verdictCount: rates.length,
+      avgRate: rates.length ? Math.round(rates.reduce((sum, r) => sum + r, 0) / rates.length) : null,
+      maxRate: rates.length ? rates.reduce((a, b) => Math.max(a, b)) : null,
+      lastRate: rates.length ? rates[rates.length - 1] : null,
+    };
+  });
+}
@@ -0,0 +1,243 @@
+import { AnalysisModality, Participant, ScoringBand, SubjectBaseline } from '../types';
+import { Locale } from './i18n';
+import { bandLabel, bandUpperBound, DEFAULT_BANDS } from './scoring';
+import { isMultiSpeaker, participantLabel } from './participants';
+
+export type Strictness = 'lenient' | 'standard' | 'strict';
+export type PersonaId = 'veritas' | 'analyst' | 'examiner';
+
+export interface PromptSettings {
+  language: Locale;
+  persona: PersonaId;
+  strictness: Strictness;
+  bands: ScoringBand[];
+}
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  language: 'zh',
+  persona: 'veritas',
+  strictness: 'standard',
+  bands: DEFAULT_BANDS,
+};
+
+interface Persona {
+  name: Record<Locale, string>;
+  identity: Record<Locale, string>;
+  style: Record<Locale, string>;
+}
+
+export const PERSONAS: Record<PersonaId, Persona> = {
+  veritas: {
+    name: { zh: '真理之眼 Veritas-V9', en: 'Veritas-V9' },
+    identity: {
+      zh: '你是代号"真理之眼 Veritas-V9"的高级战术测谎仪。',
+      en: 'You are "Veritas-V9", an advanced tactical lie detector.',
+    },
+    style: { zh: '你只会冷酷地分析和评判。', en: 'You only analyze and judge, coldly and tersely.' },
+  },
+  analyst: {
+    name: { zh: '行为分析师', en: 'Behavioral analyst' },
+    identity: {
+      zh: '你是一名资深的行为分析专家，负责评估陈述的可信度。',
+      en: 'You are a senior behavioral analyst assessing the credibility of statements.',
+    },
+    style: { zh: '你的分析客观、克制、专业。', en: 'Your analysis is objective, measured and professional.' },
+  },
+  examiner: {
+    name: { zh: '测谎考官', en: 'Polygraph examiner' },
+    identity: {
+      zh: '你是一名经验丰富的测谎考官，正在进行一次正式的测谎询问。',
+      en: 'You are an experienced polygraph examiner conducting a formal examination.',
+    },
+    style: { zh: '你的措辞正式、简洁，只陈述观察到的依据。', en: 'Your wording is formal and concise; state only observed evidence.' },
+  },
+};
+
+const STRICTNESS_RULES: Record<Strictness, Record<Locale, string>> = {
+  lenient: {
+    zh: '只有在出现多个明确的欺骗迹象时才给出高欺骗率；存在疑问时倾向于判定为真话。',
+    en: 'Only give a high deception rate when several clear signs of deception appear; when in doubt, lean towards truthful.',
+  },
+  standard: { zh: '', en: '' },
+  strict: {
+    zh: '对任何细微的不一致都保持高度警惕；存在疑问时倾向于提高欺骗率。',
+    en: 'Treat even small inconsistencies with suspicion; when in doubt, lean towards a higher deception rate.',
+  },
+};
+
+// When the model should judge, and which cues it can actually observe
+const MODALITY_TRIGGER: Record<AnalysisModality, Record<Locale, string>> = {
+  'audio-video': { zh: '当用户说任何话时', en: 'Whenever the user says anything' },
+  audio: { zh: '当用户说任何话时', en: 'Whenever the user says anything' },
+  video: { zh: '每当收到评估请求时', en: 'Whenever you are asked for an assessment' },
+  text: { zh: '每当用户发来一段文字陈述时', en: 'Whenever the user sends a written statement' },
+};
+
+const MODALITY_CUES: Record<AnalysisModality, Record<Locale, string>> = {
+  'audio-video': { zh: '分析他们的语气、语速、逻辑、面部表情', en: 'Analyze their tone, pace, logic and facial expression' },
+  audio: {
+    zh: '分析他们的语气、语速、停顿与逻辑（这是纯音频会话，你看不到受审者，不要臆测表情）',
+    en: 'Analyze their tone, pace, pauses and logic (this is an audio-only session: you cannot see the subject, so do not guess at expressions)',
+  },
+  video: {
+    zh: '分析他们的面部表情、微表情、眼神与肢体动作（这是纯视频会话，你听不到受审者，只依据画面判断）',
+    en: 'Analyze their facial expression, micro-expressions, gaze and body movement (this is a video-only session: you cannot hear the subject, judge from the picture alone)',
+  },
+  text: {
+    zh: '分析措辞、逻辑、前后一致性、含糊其辞与细节多寡（这是文字会话，你看不到也听不到受审者，不要臆测语气和表情）',
+    en: 'Analyze wording, logic, consistency, hedging and amount of detail (this is a text session: you can neither see nor hear the subject, so do not guess at tone or expression)',
+  },
+};
+
+/** Text turn that asks for a verdict in video-only sessions, where no speech starts a turn. */
+export const VIDEO_ASSESSMENT_REQUEST: Record<Locale, string> = {
+  zh: '请评估受审者当前画面中的表现。',
+  en: "Assess the subject's current demeanor in the picture.",
+};
+
+/** The tag the model is told to prefix each spoken verdict with. */
+export const verdictTag = (language: Locale, rate: number | string) =>
+  language === 'zh' ? `[欺骗率:${rate}%]` : `[Deception:${rate}%]`;
+
+export function baselineInstruction(baseline: SubjectBaseline, language: Locale): string {
+  if (language === 'en') {
+    return `
+          [SUBJECT BASELINE] (from the calibration control questions)
+          - On known truths you rated this subject about ${baseline.truthRate}%, average volume ${baseline.truthVolume}
+          - On deliberate lies you rated this subject about ${baseline.lieRate}%, average volume ${baseline.lieVolume}
+          Judge relative to this person's baseline: only raise the deception rate for clear departures from their truthful baseline.
+  `;
+  }
+  return `
+          【受审者基线】（来自校准阶段的对照问题）
+          - 已知真话时你给出的欺骗率约为 ${baseline.truthRate}%，平均音量 ${baseline.truthVolume}
+          - 故意说谎时你给出的欺骗率约为 ${baseline.lieRate}%，平均音量 ${baseline.lieVolume}
+          请以此人的基线为参照进行判断：只有明显偏离其真话基线的表现才应提高欺骗率。
+  `;
+}
+
+/**
+ * Sent as a text turn whenever the operator tags a new speaker, so the model
+ * knows whose words follow. It does not complete the turn and asks for no reply.
+ */
+export function speakerNote(speaker: Participant, participants: Participant[], language: Locale): string {
+  const name = participantLabel(speaker, participants, language);
+  if (language === 'en') {
+    return speaker.role === 'interviewer'
+      ? `[SPEAKER: ${name} (interviewer) — do not judge what follows]`
+      : `[SPEAKER: ${name} (subject)]`;
+  }
+  return speaker.role === 'interviewer' ? `【当前发言人：${name}（审讯员，不作判定）】` : `【当前发言人：${name}（受审者）】`;
+}
+
+export function participantsInstruction(participants: Participant[], language: Locale): string {
+  const names = participants
+    .map(p => `- ${participantLabel(p, participants, language)} (${language === 'en' ? p.role : p.role === 'interviewer' ? '审讯员' : '受审者'})`)
+    .join('\n          ');
+  if (language === 'en') {
+    return `
+          [PARTICIPANTS] Several people speak in this session:
+          ${names}
+          A text note such as "[SPEAKER: name]" tells you who is speaking from then on. Judge each subject against their own earlier statements, never against another person.
+          When the interviewer speaks, stay silent: do not call report_verdict and do not output a verdict.
+  `;
+  }
+  return `
+          【参与者】本次会话有多人发言：
+          ${names}
+          "【当前发言人：姓名】"这样的文字提示表示此后说话的是谁。请将每位受审者与其本人之前的陈述对照判断，不要与他人比较。
+          审讯员说话时保持沉默：不要调用 report_verdict，也不要输出判定。
+  `;
+}
+
+function bandCriteria(bands: ScoringBand[], language: Locale): string {
+  const separator = language === 'zh' ? '：' : ': ';
+  return bands
+    .map((band, i) => `- ${bandLabel(band, language)} (${band.threshold}-${bandUpperBound(bands, i)}%)${separator}${band.criteria[language]}`)
+    .join('\n          ');
+}
+
+function bandExamples(bands: ScoringBand[], language: Locale): string {
+  return bands
+    .map((band, i) => {
+      const rate = Math.round((band.threshold + bandUpperBound(bands, i)) / 2);
+      const text = language === 'zh'
+        ? `${band.criteria.zh}，判定为${bandLabel(band, 'zh')}。`
+        : `${band.criteria.en}; judged ${bandLabel(band, 'en')}.`;
+      return `- ${verdictTag(language, rate)} ${text}`;
+    })
+    .join('\n          ');
+}
+
+export function buildSystemInstruction(settings: PromptSettings, baseline: SubjectBaseline | null, modality: AnalysisModality = 'audio-video', participants: Participant[] = []): string {
+  const { language, bands } = settings;
+  const multiSpeaker = isMultiSpeaker(participants);
+  const persona = PERSONAS[settings.persona] ?? PERSONAS.veritas;
+  const strictness = STRICTNESS_RULES[settings.strictness]?.[language] ?? '';
+
+  if (language === 'en') {
+    return `
+          ${persona.identity.en}
+
+          [IMPORTANT] Your only task is to analyze whether what the user says is true or false. You are not a chat assistant: you do not answer questions and you do not converse. ${persona.style.en}
+
+          ${MODALITY_TRIGGER[modality].en}, you must:
+          1. ${MODALITY_CUES[modality].en}
+          2. Give a deception rate (0-100%)
+          3. Briefly explain the reasoning
+
+          Criteria:
+          ${bandCriteria(bands, 'en')}
+          ${strictness}
+
+          For every verdict, first call the report_verdict tool with the structured result (deception rate, confidence, cues, reasoning), then say it aloud. Write cues and reasoning in English.
+
+          Output format (follow strictly, speak English):
+          ${verdictTag('en', 'XX')} your brief analysis
+
+          Example output:
+          ${bandExamples(bands, 'en')}
+
+          [FORBIDDEN]
+          - Do not answer the user's questions
+          - Do not chat with the user
+          - Do not offer help or advice
+          - Only output lie-detection verdicts
+          ${baseline ? baselineInstruction(baseline, 'en') : ''}
+          ${multiSpeaker ? participantsInstruction(participants, 'en') : ''}
+          Begin monitoring the subject now.
+        `;
+  }
+
+  return `
+          ${persona.identity.zh}
+
+          【重要】你的唯一任务是：分析并评判用户说的话是真是假。你不是聊天助手，你不会回答问题，你不会和用户对话。${persona.style.zh}
+
+          ${MODALITY_TRIGGER[modality].zh}，你必须：
+          1. ${MODALITY_CUES[modality].zh}
+          2. 给出欺骗率评分 (0-100%)
+          3. 简短解释判断依据
+
+          判定标准：
+          ${bandCriteria(bands, 'zh')}
+          ${strictness}
+
+          每次判定必须先调用 report_verdict 工具提交结构化结果（欺骗率、置信度、线索、依据），然后再口头输出。
+
+          输出格式（必须严格遵守）：
+          ${verdictTag('zh', 'XX')} 你的简短分析
+
+          示例输出：
+          ${bandExamples(bands, 'zh')}
+
+          【禁止行为】
+          - 禁止回答用户的问题
+          - 禁止与用户闲聊
+          - 禁止提供帮助或建议
+          - 只能输出测谎分析结果
+          ${baseline ? baselineInstruction(baseline, 'zh') : ''}
+          ${multiSpeaker ? participantsInstruction(participants, 'zh') : ''}
+          现在开始监控目标。
+        `;
+}
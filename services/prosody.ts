@@ -0,0 +1,176 @@
+import { VocalFeatures } from '../types';
+
+const FRAME_SIZE = 640; // 40 ms at 16 kHz
+const HOP_SIZE = 320; // 20 ms
+const HOP_MS = 20;
+const MIN_F0 = 75;
+const MAX_F0 = 400;
+// Normalized autocorrelation above this counts as voiced
+const VOICING_THRESHOLD = 0.45;
+// Frame RMS (0-1) above this counts as speech
+const SPEECH_RMS = 0.02;
+// Silences at least this long inside an utterance count as pauses
+const MIN_PAUSE_MS = 150;
+// A silence this long ends the utterance
+const END_OF_UTTERANCE_MS = 800;
+// Utterances shorter than this are treated as noise
+const MIN_UTTERANCE_MS = 300;
+// Syllable nuclei must be at least this far apart
+const MIN_SYLLABLE_GAP_MS = 100;
+
+interface Frame {
+  rms: number;
+  peak: number;
+  // Fundamental frequency in Hz, null when unvoiced
+  f0: number | null;
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/** Mean absolute difference of consecutive values relative to their mean, in percent. */
+const perturbation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  let diff = 0;
+  for (let i = 1; i < values.length; i++) diff += Math.abs(values[i] - values[i - 1]);
+  return (diff / (values.length - 1) / (mean(values) || 1)) * 100;
+};
+
+/** Lowest and highest value in one pass; long utterances have too many frames to spread into Math.min/max. */
+const extent = (values: number[]) => values.reduce(
+  ([lo, hi], v) => [Math.min(lo, v), Math.max(hi, v)],
+  [Infinity, -Infinity],
+);
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Autocorrelation pitch estimate for one frame; returns null when the frame is not clearly periodic. */
+function detectPitch(frame: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_F0);
+  const maxLag = Math.ceil(sampleRate / MIN_F0);
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (energy === 0) return null;
+
+  let bestLag = 0;
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag && lag < frame.length; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < frame.length; i++) sum += frame[i] * frame[i + lag];
+    const normalized = sum / energy;
+    if (normalized > best) {
+      best = normalized;
+      bestLag = lag;
+    }
+  }
+  return best >= VOICING_THRESHOLD && bestLag > 0 ? sampleRate / bestLag : null;
+}
+
+/** Summarizes the frames of one utterance, trailing silence already trimmed. */
+export function summarizeUtterance(frames: Frame[]): VocalFeatures {
+  const voiced = frames.filter(f => f.f0 !== null);
+  const f0s = voiced.map(f => f.f0!);
+  const periods = f0s.map(f0 => 1000 / f0);
+
+  const pauses: number[] = [];
+  let silent = 0;
+  frames.forEach(frame => {
+    if (frame.rms < SPEECH_RMS) {
+      silent++;
+      return;
+    }
+    if (silent * HOP_MS >= MIN_PAUSE_MS) pauses.push(silent * HOP_MS);
+    silent = 0;
+  });
+
+  // Syllable nuclei: local energy maxima in voiced frames, kept apart by a minimum gap
+  let syllables = 0;
+  let lastNucleus = -Infinity;
+  for (let i = 1; i < frames.length - 1; i++) {
+    const f = frames[i];
+    if (f.f0 === null || f.rms < frames[i - 1].rms || f.rms < frames[i + 1].rms) continue;
+    if ((i - lastNucleus) * HOP_MS < MIN_SYLLABLE_GAP_MS) continue;
+    syllables++;
+    lastNucleus = i;
+  }
+
+  const durationMs = frames.length * HOP_MS;
+  const speakingSeconds = Math.max(0.001, (durationMs - pauses.reduce((sum, p) => sum + p, 0)) / 1000);
+  const f0Mean = mean(f0s);
+  const [f0Min, f0Max] = extent(f0s);
+  return {
+    durationMs,
+    f0Mean: Math.round(f0Mean),
+    f0Range: f0s.length ? Math.round(f0Max - f0Min) : 0,
+    jitter: round(perturbation(periods), 2),
+    shimmer: round(perturbation(voiced.map(f => f.peak)), 2),
+    speechRate: round(syllables / speakingSeconds),
+    pauseCount: pauses.length,
+    meanPauseMs: Math.round(mean(pauses)),
+    longestPauseMs: pauses.reduce((max, p) => Math.max(max, p), 0),
+    voicedRatio: round(frames.length ? voiced.length / frames.length : 0, 2),
+  };
+}
+
+/**
+ * Frame-level prosody analysis over the 16 kHz capture stream. Frames are
+ * grouped into utterances by energy; when an utterance ends its features are
+ * reported. Jitter and shimmer are approximated from consecutive 20 ms
+ * frames rather than individual glottal cycles.
+ */
+export class ProsodyAnalyzer {
+  private buffer = new Float32Array(0);
+  private frames: Frame[] = [];
+  private silentFrames = 0;
+
+  constructor(private onFeatures: (features: VocalFeatures) => void, private sampleRate = 16000) {}
+
+  public push(pcm: Int16Array) {
+    const next = new Float32Array(this.buffer.length + pcm.length);
+    next.set(this.buffer);
+    for (let i = 0; i < pcm.length; i++) next[this.buffer.length + i] = pcm[i] / 32768;
+    this.buffer = next;
+
+    let offset = 0;
+    while (offset + FRAME_SIZE <= this.buffer.length) {
+      this.analyzeFrame(this.buffer.subarray(offset, offset + FRAME_SIZE));
+      offset += HOP_SIZE;
+    }
+    this.buffer = this.buffer.slice(offset);
+  }
+
+  /** Emits whatever utterance is in progress, e.g. when the session ends. */
+  public flush() {
+    this.finishUtterance();
+    this.buffer = new Float32Array(0);
+  }
+
+  public reset() {
+    this.frames = [];
+    this.silentFrames = 0;
+    this.buffer = new Float32Array(0);
+  }
+
+  private analyzeFrame(samples: Float32Array) {
+    let sum = 0;
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    const speech = rms >= SPEECH_RMS;
+
+    if (!speech && this.frames.length === 0) return;
+    this.frames.push({ rms, peak, f0: speech ? detectPitch(samples, this.sampleRate) : null });
+    this.silentFrames = speech ? 0 : this.silentFrames + 1;
+    if (this.silentFrames * HOP_MS >= END_OF_UTTERANCE_MS) this.finishUtterance();
+  }
+
+  private finishUtterance() {
+    const frames = this.frames.slice(0, this.frames.length - this.silentFrames);
+    this.frames = [];
+    this.silentFrames = 0;
+    if (frames.length * HOP_MS < MIN_UTTERANCE_MS) return;
+    this.onFeatures(summarizeUtterance(frames));
+  }
+}
@@ -0,0 +1,13 @@
+import { AnalysisProvider, ProviderId } from './analysisProvider';
+import { geminiLive } from './geminiLiveService';
+import { mockAnalysis } from './mockAnalysisProvider';
+import { hasCredentials } from './credentials';
+import { loadSettings } from './settings';
+
+export const ANALYSIS_PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiLive,
+  mock: mockAnalysis,
+};
+
+// Without a key or token proxy the live backend cannot connect, so start in offline mode
+export const DEFAULT_PROVIDER: ProviderId = hasCredentials(loadSettings().credentials) ? 'gemini' : 'mock';
@@ -0,0 +1,233 @@
+/** Normalized (0-1) rectangle within the video frame. */
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HeartRateReading {
+  // Null until enough signal has been collected
+  bpm: number | null;
+  // Share of in-band power around the spectral peak, 0-1
+  quality: number;
+  // True when quality is good enough to show the reading instead of a simulated value
+  reliable: boolean;
+}
+
+const SAMPLE_RATE = 30; // Hz, both the camera sampling and the resampled series
+const WINDOW_SECONDS = 10;
+const MIN_SECONDS = 6;
+const ESTIMATE_INTERVAL = 1000;
+const MIN_BPM = 42;
+const MAX_BPM = 240;
+const FFT_SIZE = 2048;
+// Bins within this many BPM of the peak count as signal
+const PEAK_HALF_WIDTH_BPM = 6;
+export const RELIABLE_QUALITY = 0.35;
+
+// Forehead and cheeks of a centred face, used until a face detector supplies a box
+export const DEFAULT_FACE_REGION: FrameRegion = { x: 0.35, y: 0.2, width: 0.3, height: 0.4 };
+
+/** Forehead and cheeks within a detected face box, leaving out hair, background and the mouth. */
+export const faceSampleRegion = (face: FrameRegion): FrameRegion => ({
+  x: face.x + face.width * 0.2,
+  y: face.y + face.height * 0.1,
+  width: face.width * 0.6,
+  height: face.height * 0.5,
+});
+
+const ROI_SIZE = 48;
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two. */
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/** Second-order band-pass (RBJ cookbook, constant peak gain) applied forward over the series. */
+function bandPass(signal: Float64Array, lowHz: number, highHz: number, fs: number): Float64Array {
+  const center = Math.sqrt(lowHz * highHz);
+  const q = center / (highHz - lowHz);
+  const w0 = (2 * Math.PI * center) / fs;
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  const b0 = alpha / a0;
+  const b2 = -alpha / a0;
+  const a1 = (-2 * Math.cos(w0)) / a0;
+  const a2 = (1 - alpha) / a0;
+  const out = new Float64Array(signal.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < signal.length; i++) {
+    const x = signal[i];
+    const y = b0 * x + b2 * x2 - a1 * y1 - a2 * y2;
+    out[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return out;
+}
+
+/** Resamples irregular (time, value) samples onto a uniform grid by linear interpolation. */
+function resampleUniform(times: number[], values: number[], fs: number): Float64Array {
+  const duration = (times[times.length - 1] - times[0]) / 1000;
+  const count = Math.floor(duration * fs);
+  const out = new Float64Array(count);
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    const t = times[0] + (i * 1000) / fs;
+    while (j < times.length - 2 && times[j + 1] < t) j++;
+    const span = times[j + 1] - times[j] || 1;
+    const f = Math.max(0, Math.min(1, (t - times[j]) / span));
+    out[i] = values[j] + (values[j + 1] - values[j]) * f;
+  }
+  return out;
+}
+
+/**
+ * Estimates heart rate from a mean green-channel trace: normalize and detrend,
+ * band-pass to the plausible pulse range, then pick the strongest FFT peak.
+ */
+export function estimateHeartRate(times: number[], values: number[]): HeartRateReading {
+  if (times.length < 2 || (times[times.length - 1] - times[0]) / 1000 < MIN_SECONDS) {
+    return { bpm: null, quality: 0, reliable: false };
+  }
+  const series = resampleUniform(times, values, SAMPLE_RATE);
+  const mean = series.reduce((sum, v) => sum + v, 0) / series.length || 1;
+  // Relative change removes overall brightness; a 1 s moving average removes slow drift
+  const detrended = new Float64Array(series.length);
+  const half = Math.floor(SAMPLE_RATE / 2);
+  for (let i = 0; i < series.length; i++) {
+    let sum = 0, count = 0;
+    for (let k = Math.max(0, i - half); k <= Math.min(series.length - 1, i + half); k++) {
+      sum += series[k];
+      count++;
+    }
+    detrended[i] = (series[i] - sum / count) / mean;
+  }
+  const filtered = bandPass(detrended, MIN_BPM / 60, MAX_BPM / 60, SAMPLE_RATE);
+
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const n = Math.min(filtered.length, FFT_SIZE);
+  const offset = filtered.length - n;
+  for (let i = 0; i < n; i++) {
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    re[i] = filtered[offset + i] * hann;
+  }
+  fft(re, im);
+
+  const binBpm = (SAMPLE_RATE / FFT_SIZE) * 60;
+  const lowBin = Math.ceil(MIN_BPM / binBpm);
+  const highBin = Math.floor(MAX_BPM / binBpm);
+  let peakBin = lowBin;
+  let peakPower = 0;
+  let bandPower = 0;
+  const power = new Float64Array(highBin + 1);
+  for (let k = lowBin; k <= highBin; k++) {
+    power[k] = re[k] * re[k] + im[k] * im[k];
+    bandPower += power[k];
+    if (power[k] > peakPower) {
+      peakPower = power[k];
+      peakBin = k;
+    }
+  }
+  if (bandPower === 0) return { bpm: null, quality: 0, reliable: false };
+
+  const halfWidth = Math.round(PEAK_HALF_WIDTH_BPM / binBpm);
+  let signalPower = 0;
+  for (let k = Math.max(lowBin, peakBin - halfWidth); k <= Math.min(highBin, peakBin + halfWidth); k++) signalPower += power[k];
+  const quality = signalPower / bandPower;
+  const bpm = Math.round(peakBin * binBpm);
+  return { bpm, quality, reliable: quality >= RELIABLE_QUALITY };
+}
+
+/**
+ * Samples the face region of a playing video at ~30 fps and reports a
+ * heart-rate estimate once per second. Everything runs locally; no frames
+ * leave the browser.
+ */
+export class RppgEstimator {
+  private canvas = document.createElement('canvas');
+  private ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+  private times: number[] = [];
+  private values: number[] = [];
+  private sampleTimer: number | null = null;
+  private estimateTimer: number | null = null;
+  private region: FrameRegion = DEFAULT_FACE_REGION;
+
+  constructor(private onReading: (reading: HeartRateReading) => void) {
+    this.canvas.width = ROI_SIZE;
+    this.canvas.height = ROI_SIZE;
+  }
+
+  /** Region to sample; a face detector can keep this on the subject's face. */
+  public setRegion(region: FrameRegion) {
+    this.region = region;
+  }
+
+  public start(video: HTMLVideoElement) {
+    this.stop();
+    this.sampleTimer = window.setInterval(() => this.sample(video), 1000 / SAMPLE_RATE);
+    this.estimateTimer = window.setInterval(() => {
+      this.onReading(estimateHeartRate(this.times, this.values));
+    }, ESTIMATE_INTERVAL);
+  }
+
+  public stop() {
+    if (this.sampleTimer) clearInterval(this.sampleTimer);
+    if (this.estimateTimer) clearInterval(this.estimateTimer);
+    this.sampleTimer = null;
+    this.estimateTimer = null;
+    this.times = [];
+    this.values = [];
+  }
+
+  private sample(video: HTMLVideoElement) {
+    const { videoWidth: w, videoHeight: h } = video;
+    if (!this.ctx || !w || !h || video.paused) return;
+    const { x, y, width, height } = this.region;
+    this.ctx.drawImage(video, x * w, y * h, width * w, height * h, 0, 0, ROI_SIZE, ROI_SIZE);
+    const pixels = this.ctx.getImageData(0, 0, ROI_SIZE, ROI_SIZE).data;
+    let green = 0;
+    for (let i = 1; i < pixels.length; i += 4) green += pixels[i];
+
+    const now = performance.now();
+    this.times.push(now);
+    this.values.push(green / (pixels.length / 4));
+    while (this.times.length && now - this.times[0] > WINDOW_SECONDS * 1000) {
+      this.times.shift();
+      this.values.shift();
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { LogEntry, ScoringBand } from '../types';
+import { Locale } from './i18n';
+
+export const DEFAULT_BANDS: ScoringBand[] = [
+  {
+    id: 'truth',
+    threshold: 0,
+    color: '#00f3ff',
+    label: { zh: '诚实', en: 'TRUTHFUL' },
+    criteria: { zh: '语气坚定、逻辑自洽、表情自然', en: 'steady tone, consistent logic, natural expression' },
+  },
+  {
+    id: 'suspicious',
+    threshold: 50,
+    color: '#ffaa00',
+    label: { zh: '高度可疑', en: 'SUSPICIOUS' },
+    criteria: { zh: '有停顿、逻辑小漏洞、眼神游离、声音与内容不符', en: 'pauses, small logical gaps, wandering gaze, voice not matching content' },
+  },
+  {
+    id: 'lie',
+    threshold: 76,
+    color: '#ff003c',
+    label: { zh: '谎言确认', en: 'LIE CONFIRMED' },
+    criteria: { zh: '明显矛盾、声调颤抖、防御姿态', en: 'clear contradictions, trembling voice, defensive posture' },
+  },
+];
+
+const clampRate = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+/**
+ * Sorts bands by threshold and repairs them so they always cover 0-100: the
+ * first band starts at 0 and bands sharing a threshold are dropped.
+ */
+export function normalizeBands(bands: ScoringBand[] | undefined): ScoringBand[] {
+  if (!Array.isArray(bands) || bands.length === 0) return DEFAULT_BANDS;
+  const sorted = bands
+    .map(band => ({ ...band, threshold: clampRate(Number(band.threshold) || 0) }))
+    .sort((a, b) => a.threshold - b.threshold)
+    .filter((band, i, all) => i === 0 || band.threshold !== all[i - 1].threshold);
+  sorted[0] = { ...sorted[0], threshold: 0 };
+  return sorted;
+}
+
+export function bandIndex(rate: number, bands: ScoringBand[]): number {
+  let index = 0;
+  bands.forEach((band, i) => {
+    if (rate >= band.threshold) index = i;
+  });
+  return index;
+}
+
+export const bandFor = (rate: number, bands: ScoringBand[]): ScoringBand => bands[bandIndex(rate, bands)];
+
+/** Highest rate (inclusive) that still falls into the band at `index`. */
+export const bandUpperBound = (bands: ScoringBand[], index: number): number =>
+  index + 1 < bands.length ? bands[index + 1].threshold - 1 : 100;
+
+export const bandLabel = (band: ScoringBand, locale: Locale): string => band.label[locale] || band.label.zh || band.label.en;
+
+/**
+ * Log type for a verdict: the lowest band reads as truth, the highest as
+ * deception and everything in between as a system note.
+ */
+export function classifyRate(rate: number, bands: ScoringBand[]): Pick<LogEntry, 'type' | 'band'> {
+  const index = bandIndex(rate, bands);
+  const type = index === 0 ? 'truth' : index === bands.length - 1 ? 'deception' : 'system';
+  return { type, band: bands[index].id };
+}
@@ -0,0 +1,150 @@
+import { DeceptionSample, ScoringBand, SessionArchive, VerdictRecord } from '../types';
+import { Locale } from './i18n';
+import { bandIndex } from './scoring';
+
+export const HISTOGRAM_BINS = 10;
+// Sample counts the rolling average can be taken over; live history has one sample per second
+export const ROLLING_WINDOWS = [5, 15, 30];
+export const DEFAULT_ROLLING_WINDOW = 15;
+const SAMPLE_INTERVAL = 1000;
+// Gaps (reconnects, paused recordings) count for at most this long, so a stale rate does not dominate band times
+const MAX_SAMPLE_GAP = 5000;
+
+export interface AnalyticsPoint {
+  // Seconds since the first sample
+  elapsed: number;
+  value: number;
+  rolling: number;
+}
+
+export interface BandTime {
+  band: ScoringBand;
+  ms: number;
+  // Share of the session's sampled time, 0-1
+  share: number;
+}
+
+export interface CueCount {
+  id: string;
+  label: string;
+  // Verdicts whose reasoning or cues mention it
+  count: number;
+  avgRate: number;
+}
+
+export interface SessionAnalytics {
+  points: AnalyticsPoint[];
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  bandTimes: BandTime[];
+  transitions: number;
+  // Verdict counts per 10% of deception rate; the last bin includes 100
+  histogram: number[];
+  cues: CueCount[];
+}
+
+interface CueDefinition {
+  id: string;
+  label: Record<Locale, string>;
+  pattern: RegExp;
+}
+
+/**
+ * Cue families looked for in verdict reasoning and report_verdict cues. The
+ * model words them freely in either language, so each family matches the
+ * common phrasings rather than one fixed term.
+ */
+const CUES: CueDefinition[] = [
+  { id: 'pause', label: { zh: '停顿', en: 'Pauses' }, pattern: /停顿|迟疑|犹豫|pause|hesitat/i },
+  { id: 'gaze', label: { zh: '眼神', en: 'Gaze' }, pattern: /眼神|目光|眼睛|视线|eye contact|gaze|glanc|looking away/i },
+  { id: 'voice', label: { zh: '声音颤抖', en: 'Voice tremor' }, pattern: /声音颤抖|颤抖|发抖|tremor|trembl|shaky voice|quaver/i },
+  { id: 'pitch', label: { zh: '音调变化', en: 'Pitch change' }, pattern: /音调|语调|音高|pitch|intonation/i },
+  { id: 'rate', label: { zh: '语速变化', en: 'Speech rate' }, pattern: /语速|说得快|说得慢|speech rate|speaking (?:fast|quickly|slowly)|rushed/i },
+  { id: 'fillers', label: { zh: '填充词', en: 'Filler words' }, pattern: /填充词|嗯|呃|filler|\bum+\b|\buh+\b/i },
+  { id: 'hedging', label: { zh: '含糊措辞', en: 'Hedging' }, pattern: /含糊|模糊|不确定|回避|hedg|vague|evasive|uncertain|non-committal/i },
+  { id: 'contradiction', label: { zh: '前后矛盾', en: 'Contradiction' }, pattern: /矛盾|不一致|前后不符|contradict|inconsisten/i },
+  { id: 'detail', label: { zh: '细节', en: 'Detail' }, pattern: /细节|具体|detail|specific/i },
+  { id: 'fidget', label: { zh: '小动作', en: 'Fidgeting' }, pattern: /小动作|摸[脸鼻脖头]|搓手|坐立不安|fidget|touch(?:es|ing)? (?:the |his |her |their )?(?:face|nose|neck)|self-touch/i },
+  { id: 'expression', label: { zh: '表情', en: 'Facial expression' }, pattern: /表情|微笑|笑容|假笑|皱眉|expression|smil|frown|grimace/i },
+  { id: 'posture', label: { zh: '姿态', en: 'Posture' }, pattern: /姿态|姿势|身体后仰|前倾|posture|leaning (?:back|forward|away)|shrug/i },
+  { id: 'breathing', label: { zh: '呼吸', en: 'Breathing' }, pattern: /呼吸|叹气|吞咽|breath|sigh|swallow/i },
+  { id: 'overemphasis', label: { zh: '过度强调', en: 'Overemphasis' }, pattern: /过度强调|发誓|保证|说实话|swear|honestly|to be honest|overemphas|insist/i },
+];
+
+/** Counts rates into equal bins over 0-100; 100 falls into the last bin. */
+export function rateHistogram(rates: number[], bins = HISTOGRAM_BINS): number[] {
+  const histogram = new Array<number>(bins).fill(0);
+  rates.forEach(rate => histogram[Math.min(bins - 1, Math.max(0, Math.floor(rate / (100 / bins))))]++);
+  return histogram;
+}
+
+/** Mean of the current sample and up to `window - 1` before it. */
+export function rollingAverage(values: number[], window: number): number[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value - (i >= window ? values[i - window] : 0);
+    return Math.round(sum / Math.min(i + 1, window));
+  });
+}
+
+/** How long the rate stayed in each band, each sample lasting until the next one. */
+export function timeInBands(history: DeceptionSample[], bands: ScoringBand[]): BandTime[] {
+  const totals = bands.map(() => 0);
+  history.forEach((sample, i) => {
+    // The last sample lasts one live sampling interval
+    const next = history[i + 1];
+    const interval = next ? Math.min(next.time - sample.time, MAX_SAMPLE_GAP) : SAMPLE_INTERVAL;
+    totals[bandIndex(sample.value, bands)] += interval;
+  });
+  const total = totals.reduce((sum, ms) => sum + ms, 0);
+  return bands.map((band, i) => ({ band, ms: totals[i], share: total ? totals[i] / total : 0 }));
+}
+
+/** Number of times consecutive samples fall into different bands. */
+export function bandTransitions(history: DeceptionSample[], bands: ScoringBand[]): number {
+  let transitions = 0;
+  history.forEach((sample, i) => {
+    if (i > 0 && bandIndex(sample.value, bands) !== bandIndex(history[i - 1].value, bands)) transitions++;
+  });
+  return transitions;
+}
+
+/** Cue families mentioned by the verdicts, most frequent first; each verdict counts once per family. */
+export function cueFrequency(verdicts: VerdictRecord[], locale: Locale): CueCount[] {
+  return CUES
+    .map(cue => {
+      const matching = verdicts.filter(v => cue.pattern.test(`${v.reasoning} ${(v.cues ?? []).join(' ')}`));
+      return {
+        id: cue.id,
+        label: cue.label[locale],
+        count: matching.length,
+        avgRate: matching.length ? Math.round(matching.reduce((sum, v) => sum + v.rate, 0) / matching.length) : 0,
+      };
+    })
+    .filter(cue => cue.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Everything the analytics view shows, over the whole session rather than
+ * the live chart's recent window. Min, max and the band figures come from
+ * the per-second history; the histogram and cues from individual verdicts.
+ */
+export function computeSessionAnalytics(archive: Pick<SessionArchive, 'history' | 'verdicts'>, bands: ScoringBand[], window: number, locale: Locale): SessionAnalytics {
+  const { history, verdicts } = archive;
+  const values = history.map(h => h.value);
+  const rolling = rollingAverage(values, window);
+  const start = history[0]?.time ?? 0;
+  return {
+    points: history.map((sample, i) => ({ elapsed: Math.round((sample.time - start) / 1000), value: sample.value, rolling: rolling[i] })),
+    // Long sessions have too many samples to spread into Math.min
+    min: values.length ? values.reduce((a, b) => Math.min(a, b)) : null,
+    max: values.length ? values.reduce((a, b) => Math.max(a, b)) : null,
+    avg: values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null,
+    bandTimes: timeInBands(history, bands),
+    transitions: bandTransitions(history, bands),
+    histogram: rateHistogram(verdicts.map(v => v.rate)),
+    cues: cueFrequency(verdicts, locale),
+  };
+}
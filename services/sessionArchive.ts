@@ -0,0 +1,297 @@
+import { AnalysisModality, DeceptionSample, InterviewPlan, LogEntry, Participant, QuestionSegment, ScoringBand, SessionArchive, SessionStats, SubjectBaseline, TimelineItem, VerdictRecord, VocalFeatures } from '../types';
+import { summarizeQuestions } from './interviewPlan';
+import { formatMediaTime } from './mediaFile';
+import { findParticipant, participantLabel, summarizeParticipants } from './participants';
+import { bandFor, normalizeBands } from './scoring';
+import { flattenTimeline } from './turns';
+
+export type ExportFormat = 'json' | 'csv' | 'md' | 'html';
+
+interface ArchiveInput {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  model: string;
+  timeline: TimelineItem[];
+  history: DeceptionSample[];
+  verdicts: VerdictRecord[];
+  baseline?: SubjectBaseline;
+  plan?: InterviewPlan;
+  segments?: QuestionSegment[];
+  bands?: ScoringBand[];
+  modality?: AnalysisModality;
+  mediaFile?: string;
+  participants?: Participant[];
+}
+
+const MODALITY_LABELS: Record<AnalysisModality, string> = {
+  'audio-video': '音视频 / Audio + video',
+  audio: '纯音频 / Audio only',
+  video: '纯视频 / Video only',
+  text: '文字 / Text chat',
+};
+
+const verdictLabel = (rate: number, bands: ScoringBand[]): string => {
+  const { label } = bandFor(rate, bands);
+  return label.zh === label.en ? label.zh : `${label.zh} / ${label.en}`;
+};
+
+// Participant names in both languages, or null for entries without a tagged speaker
+const speakerName = (archive: SessionArchive, speakerId?: string): string | null => {
+  const participants = archive.participants ?? [];
+  const participant = findParticipant(participants, speakerId);
+  if (!participant) return null;
+  const zh = participantLabel(participant, participants, 'zh');
+  const en = participantLabel(participant, participants, 'en');
+  return zh === en ? zh : `${zh} / ${en}`;
+};
+
+const transcriptSpeaker = (archive: SessionArchive, log: LogEntry): string =>
+  log.type === 'neutral' ? speakerName(archive, log.speakerId) ?? '受审者' : 'V9_系统';
+
+const formatDuration = (ms: number): string => {
+  const elapsed = Math.max(0, Math.floor(ms / 1000));
+  const mins = Math.floor(elapsed / 60).toString().padStart(2, '0');
+  const secs = (elapsed % 60).toString().padStart(2, '0');
+  return `${mins}:${secs}`;
+};
+
+export function computeSessionStats(input: Pick<SessionArchive, 'startedAt' | 'endedAt' | 'logs' | 'history'>): SessionStats {
+  const values = input.history.map(h => h.value);
+  return {
+    userMessages: input.logs.filter(l => l.type === 'neutral').length,
+    aiMessages: input.logs.filter(l => l.type !== 'neutral').length,
+    avgProbability: values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0,
+    // One sample per second: long sessions overflow the argument limit if spread into Math.max
+    maxProbability: values.reduce((max, v) => Math.max(max, v), 0),
+    durationMs: Math.max(0, input.endedAt - input.startedAt),
+  };
+}
+
+export function createSessionArchive(input: ArchiveInput): SessionArchive {
+  const logs = flattenTimeline(input.timeline);
+  return {
+    version: 1,
+    id: input.id,
+    startedAt: input.startedAt,
+    endedAt: input.endedAt,
+    model: input.model,
+    logs,
+    timeline: input.timeline,
+    history: input.history,
+    verdicts: input.verdicts,
+    baseline: input.baseline,
+    plan: input.plan,
+    segments: input.segments,
+    bands: input.bands,
+    modality: input.modality,
+    mediaFile: input.mediaFile,
+    participants: input.participants,
+    stats: computeSessionStats({ ...input, logs }),
+  };
+}
+
+/**
+ * Parses a JSON export back into an archive. Throws if the payload is not a
+ * session archive produced by this app.
+ */
+export function parseSessionArchive(json: string): SessionArchive {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1 || typeof data.id !== 'string' || !Array.isArray(data.logs) || !Array.isArray(data.history) || !Array.isArray(data.verdicts)) {
+    throw new Error('Not a valid session archive');
+  }
+  return data as SessionArchive;
+}
+
+const escapeCsv = (value: string | number): string => {
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export function archiveToCsv(archive: SessionArchive): string {
+  const bands = normalizeBands(archive.bands);
+  const rows = [['timestamp', 'time_iso', 'deception_rate', 'verdict', 'reasoning', 'confidence', 'cues', 'source', 'raw_rate', 'question_id', 'media_time', 'speaker']];
+  archive.verdicts.forEach(v => {
+    rows.push([
+      v.timestamp, new Date(v.time).toISOString(), String(v.rate), verdictLabel(v.rate, bands), v.reasoning,
+      v.confidence !== undefined ? String(v.confidence) : '', (v.cues ?? []).join('; '), v.source,
+      v.rawRate !== undefined ? String(v.rawRate) : '', v.questionId ?? '',
+      v.mediaTime !== undefined ? formatMediaTime(v.mediaTime) : '', speakerName(archive, v.speakerId) ?? '',
+    ]);
+  });
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+// Wall-clock time, plus the position in the recording for file sessions
+const timeLabel = (entry: { timestamp: string; mediaTime?: number }): string =>
+  entry.mediaTime !== undefined ? `${entry.timestamp} · ▶${formatMediaTime(entry.mediaTime)}` : entry.timestamp;
+
+const reasoningWithCues = (v: VerdictRecord): string =>
+  v.cues?.length ? `${v.reasoning} (线索 / cues: ${v.cues.join('、')})` : v.reasoning;
+
+const vocalSummary = (v: VocalFeatures): string =>
+  `F0 ${v.f0Mean} Hz (range ${v.f0Range}), jitter ${v.jitter}%, shimmer ${v.shimmer}%, ${v.speechRate} syl/s, ` +
+  `${v.pauseCount} pauses (longest ${v.longestPauseMs} ms), voiced ${Math.round(v.voicedRatio * 100)}%`;
+
+const escapeMarkdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+export function archiveToMarkdown(archive: SessionArchive): string {
+  const { stats } = archive;
+  const bands = normalizeBands(archive.bands);
+  const lines: string[] = [
+    `# 测谎报告 / Interrogation Report`,
+    '',
+    `| 字段 / Field | 值 / Value |`,
+    `| --- | --- |`,
+    `| 会话 / Session | ${archive.id} |`,
+    `| 开始 / Started | ${new Date(archive.startedAt).toLocaleString('zh-CN', { hour12: false })} |`,
+    `| 结束 / Ended | ${new Date(archive.endedAt).toLocaleString('zh-CN', { hour12: false })} |`,
+    `| 时长 / Duration | ${formatDuration(stats.durationMs)} |`,
+    `| 模型 / Model | ${archive.model} |`,
+    `| 模态 / Modality | ${MODALITY_LABELS[archive.modality ?? 'audio-video']} |`,
+    ...(archive.mediaFile ? [`| 录制文件 / Recording | ${escapeMarkdownCell(archive.mediaFile)} |`] : []),
+    `| 平均欺骗率 / Avg rate | ${stats.avgProbability}% |`,
+    `| 峰值欺骗率 / Peak rate | ${stats.maxProbability}% |`,
+    `| 发言 / Statements | ${stats.userMessages} |`,
+    `| 分析 / Analyses | ${stats.aiMessages} |`,
+    ...(archive.baseline ? [`| 基线 / Baseline | 真话 ${archive.baseline.truthRate}% · 谎言 ${archive.baseline.lieRate}% |`] : []),
+    '',
+    `## 判定记录 / Verdicts`,
+    '',
+  ];
+
+  if (archive.verdicts.length === 0) {
+    lines.push('_无判定记录 / No verdicts recorded_');
+  } else {
+    lines.push('| 时间 / Time | 欺骗率 / Rate | 判定 / Verdict | 依据 / Reasoning |', '| --- | --- | --- | --- |');
+    archive.verdicts.forEach(v => {
+      lines.push(`| ${timeLabel(v)} | ${v.rate}% | ${verdictLabel(v.rate, bands)} | ${escapeMarkdownCell(reasoningWithCues(v))} |`);
+    });
+  }
+
+  if (archive.plan) {
+    lines.push('', `## 逐题判定 / Per-question verdicts — ${escapeMarkdownCell(archive.plan.title)}`, '');
+    lines.push('| # | 问题 / Question | 判定数 / Verdicts | 平均 / Avg | 峰值 / Peak | 结论 / Result |', '| --- | --- | --- | --- | --- | --- |');
+    summarizeQuestions(archive.plan, archive.verdicts).forEach((q, i) => {
+      lines.push(`| ${i + 1} | ${escapeMarkdownCell(q.question.text)} | ${q.verdictCount} | ${q.avgRate ?? '-'}${q.avgRate !== null ? '%' : ''} | ${q.maxRate ?? '-'}${q.maxRate !== null ? '%' : ''} | ${q.avgRate !== null ? verdictLabel(q.avgRate, bands) : '未作答 / NO DATA'} |`);
+    });
+  }
+
+  if (archive.participants) {
+    lines.push('', `## 逐人判定 / Per-participant verdicts`, '');
+    lines.push('| 参与者 / Participant | 判定数 / Verdicts | 平均 / Avg | 峰值 / Peak | 最近 / Last | 结论 / Result |', '| --- | --- | --- | --- | --- | --- |');
+    summarizeParticipants(archive.participants, archive.verdicts).forEach(p => {
+      lines.push(`| ${escapeMarkdownCell(speakerName(archive, p.participant.id)!)} | ${p.verdictCount} | ${p.avgRate ?? '-'}${p.avgRate !== null ? '%' : ''} | ${p.maxRate ?? '-'}${p.maxRate !== null ? '%' : ''} | ${p.lastRate ?? '-'}${p.lastRate !== null ? '%' : ''} | ${p.avgRate !== null ? verdictLabel(p.avgRate, bands) : '无判定 / NO DATA'} |`);
+    });
+  }
+
+  lines.push('', `## 完整记录 / Transcript`, '');
+  archive.logs.forEach(log => {
+    lines.push(`- **[${timeLabel(log)}] ${transcriptSpeaker(archive, log)}:** ${log.message.replace(/\r?\n/g, ' ')}${log.vocal ? ` _(${vocalSummary(log.vocal)})_` : ''}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function archiveToHtml(archive: SessionArchive): string {
+  const { stats } = archive;
+  const bands = normalizeBands(archive.bands);
+  const bandStyle = (rate: number) => `style="color: ${escapeHtml(bandFor(rate, bands).color)}"`;
+  const verdictRows = archive.verdicts.map(v => `
+        <tr ${bandStyle(v.rate)}>
+          <td>${escapeHtml(timeLabel(v))}</td><td>${v.rate}%</td><td>${escapeHtml(verdictLabel(v.rate, bands))}</td><td>${escapeHtml(reasoningWithCues(v))}</td>
+        </tr>`).join('');
+  const questionRows = archive.plan ? summarizeQuestions(archive.plan, archive.verdicts).map((q, i) => `
+        <tr ${q.avgRate === null ? '' : bandStyle(q.avgRate)}>
+          <td>${i + 1}</td><td>${escapeHtml(q.question.text)}</td><td>${q.verdictCount}</td><td>${q.avgRate !== null ? `${q.avgRate}%` : '-'}</td><td>${q.maxRate !== null ? `${q.maxRate}%` : '-'}</td><td>${q.avgRate !== null ? escapeHtml(verdictLabel(q.avgRate, bands)) : '未作答 / NO DATA'}</td>
+        </tr>`).join('') : '';
+  const participantRows = archive.participants ? summarizeParticipants(archive.participants, archive.verdicts).map(p => `
+        <tr ${p.avgRate === null ? '' : bandStyle(p.avgRate)}>
+          <td><span style="color: ${escapeHtml(p.participant.color)}">●</span> ${escapeHtml(speakerName(archive, p.participant.id)!)}</td><td>${p.verdictCount}</td><td>${p.avgRate !== null ? `${p.avgRate}%` : '-'}</td><td>${p.maxRate !== null ? `${p.maxRate}%` : '-'}</td><td>${p.lastRate !== null ? `${p.lastRate}%` : '-'}</td><td>${p.avgRate !== null ? escapeHtml(verdictLabel(p.avgRate, bands)) : '无判定 / NO DATA'}</td>
+        </tr>`).join('') : '';
+  const transcript = archive.logs.map(log => `
+        <li class="${log.type}"><span class="ts">[${escapeHtml(timeLabel(log))}] ${escapeHtml(transcriptSpeaker(archive, log))}:</span> ${escapeHtml(log.message)}${log.vocal ? `<div class="vocal">${escapeHtml(vocalSummary(log.vocal))}</div>` : ''}</li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+  <head>
+    <meta charset="UTF-8" />
+    <title>测谎报告 ${escapeHtml(archive.id)}</title>
+    <style>
+      body { background: #02040a; color: #cfefff; font-family: 'Share Tech Mono', 'Noto Sans SC', monospace; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+      h1, h2 { color: #00f3ff; letter-spacing: 0.1em; }
+      table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+      th, td { border: 1px solid #00f3ff40; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+      ul { list-style: none; padding: 0; }
+      li { border-left: 2px solid #555; padding: 0.3rem 0.6rem; margin-bottom: 0.4rem; }
+      li.system, li.truth { border-color: #00f3ff; }
+      li.deception { border-color: #ff003c; }
+      .ts { opacity: 0.5; }
+      .vocal { opacity: 0.5; font-size: 0.8em; }
+    </style>
+  </head>
+  <body>
+    <h1>测谎报告 / Interrogation Report</h1>
+    <table>
+      <tr><th>会话 / Session</th><td>${escapeHtml(archive.id)}</td></tr>
+      <tr><th>开始 / Started</th><td>${new Date(archive.startedAt).toLocaleString('zh-CN', { hour12: false })}</td></tr>
+      <tr><th>结束 / Ended</th><td>${new Date(archive.endedAt).toLocaleString('zh-CN', { hour12: false })}</td></tr>
+      <tr><th>时长 / Duration</th><td>${formatDuration(stats.durationMs)}</td></tr>
+      <tr><th>模型 / Model</th><td>${escapeHtml(archive.model)}</td></tr>
+      <tr><th>模态 / Modality</th><td>${MODALITY_LABELS[archive.modality ?? 'audio-video']}</td></tr>${archive.mediaFile ? `
+      <tr><th>录制文件 / Recording</th><td>${escapeHtml(archive.mediaFile)}</td></tr>` : ''}
+      <tr><th>平均欺骗率 / Avg rate</th><td>${stats.avgProbability}%</td></tr>
+      <tr><th>峰值欺骗率 / Peak rate</th><td>${stats.maxProbability}%</td></tr>${archive.baseline ? `
+      <tr><th>基线 / Baseline</th><td>真话 ${archive.baseline.truthRate}% · 谎言 ${archive.baseline.lieRate}%</td></tr>` : ''}
+    </table>
+    <h2>判定记录 / Verdicts</h2>
+    <table>
+      <tr><th>时间 / Time</th><th>欺骗率 / Rate</th><th>判定 / Verdict</th><th>依据 / Reasoning</th></tr>${verdictRows}
+    </table>
+${archive.plan ? `    <h2>逐题判定 / Per-question verdicts — ${escapeHtml(archive.plan.title)}</h2>
+    <table>
+      <tr><th>#</th><th>问题 / Question</th><th>判定数 / Verdicts</th><th>平均 / Avg</th><th>峰值 / Peak</th><th>结论 / Result</th></tr>${questionRows}
+    </table>
+` : ''}${archive.participants ? `    <h2>逐人判定 / Per-participant verdicts</h2>
+    <table>
+      <tr><th>参与者 / Participant</th><th>判定数 / Verdicts</th><th>平均 / Avg</th><th>峰值 / Peak</th><th>最近 / Last</th><th>结论 / Result</th></tr>${participantRows}
+    </table>
+` : ''}    <h2>完整记录 / Transcript</h2>
+    <ul>${transcript}
+    </ul>
+  </body>
+</html>
+`;
+}
+
+const EXPORT_MIME: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+};
+
+export function serializeArchive(archive: SessionArchive, format: ExportFormat): string {
+  switch (format) {
+    case 'json': return JSON.stringify(archive, null, 2);
+    case 'csv': return '\uFEFF' + archiveToCsv(archive); // BOM so Excel picks up UTF-8 Chinese text
+    case 'md': return archiveToMarkdown(archive);
+    case 'html': return archiveToHtml(archive);
+  }
+}
+
+export function downloadArchive(archive: SessionArchive, format: ExportFormat) {
+  const blob = new Blob([serializeArchive(archive, format)], { type: `${EXPORT_MIME[format]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `veritas-${new Date(archive.startedAt).toISOString().replace(/[:.]/g, '-')}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Some browsers start the download asynchronously and fail if the URL is already gone
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,150 @@
+import { MessageKey } from './i18n';
+import { MediaDeviceError } from './mediaDevices';
+
+export type SessionErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'model'
+  | 'media-permission'
+  | 'media-busy'
+  | 'media-unavailable'
+  | 'unknown';
+
+// Short headline shown over the video, and the explanation for each kind
+export const ERROR_TITLES: Record<SessionErrorKind, string> = {
+  auth: 'AUTHENTICATION FAILED',
+  quota: 'QUOTA EXCEEDED',
+  network: 'NETWORK ERROR',
+  model: 'CONNECTION CLOSED BY MODEL',
+  'media-permission': 'MEDIA PERMISSION DENIED',
+  'media-busy': 'MEDIA DEVICE BUSY',
+  'media-unavailable': 'MEDIA DEVICE ERROR',
+  unknown: 'CONNECTION LOST',
+};
+
+const ERROR_MESSAGES: Record<SessionErrorKind, MessageKey> = {
+  auth: 'errorAuth',
+  quota: 'errorQuota',
+  network: 'errorNetwork',
+  model: 'errorModel',
+  'media-permission': 'mediaErrorPermission',
+  'media-busy': 'mediaErrorInUse',
+  'media-unavailable': 'mediaErrorUnknown',
+  unknown: 'errorUnknown',
+};
+
+const AUTH_PATTERN = /api[ _-]?key|unauthori[sz]ed|permission[ _]denied|unauthenticated|\b40[13]\b/i;
+const QUOTA_PATTERN = /quota|resource[ _]exhausted|rate[ -]?limit|\b429\b/i;
+const NETWORK_PATTERN = /network|failed to fetch|fetch failed|offline|timed? ?out|ERR_/i;
+
+export interface SessionErrorDetails {
+  closeCode?: number;
+  closeReason?: string;
+  // Specific explanation, e.g. the media error's own message, instead of the kind's default
+  messageKey?: MessageKey;
+  cause?: unknown;
+}
+
+/** A failure that ended (or prevented) a session, classified so the UI can explain it. */
+export class SessionError extends Error {
+  public readonly closeCode?: number;
+  public readonly closeReason?: string;
+  public readonly messageKey: MessageKey;
+  public readonly cause?: unknown;
+
+  constructor(public readonly kind: SessionErrorKind, message: string, details: SessionErrorDetails = {}) {
+    super(message);
+    this.name = 'SessionError';
+    this.closeCode = details.closeCode;
+    this.closeReason = details.closeReason;
+    this.messageKey = details.messageKey ?? ERROR_MESSAGES[kind];
+    this.cause = details.cause;
+  }
+
+  /** Auth, quota and media failures will fail again the same way, so reconnecting is pointless. */
+  public get retryable() {
+    return this.kind === 'network' || this.kind === 'model' || this.kind === 'unknown';
+  }
+}
+
+const kindFromText = (text: string): SessionErrorKind | null =>
+  AUTH_PATTERN.test(text) ? 'auth' : QUOTA_PATTERN.test(text) ? 'quota' : NETWORK_PATTERN.test(text) ? 'network' : null;
+
+/** Classifies a WebSocket close. 1000 is a clean close, 1006 means the connection dropped without one. */
+export function errorFromClose(code: number, reason: string): SessionError {
+  const kind = kindFromText(reason) ?? (code === 1006 ? 'network' : 'model');
+  return new SessionError(kind, reason || `Connection closed with code ${code}`, { closeCode: code, closeReason: reason });
+}
+
+const MEDIA_KINDS: Partial<Record<MessageKey, SessionErrorKind>> = {
+  mediaErrorPermission: 'media-permission',
+  mediaErrorInsecure: 'media-permission',
+  mediaErrorInUse: 'media-busy',
+};
+
+/** Wraps anything thrown while starting or running a session. */
+export function toSessionError(err: unknown): SessionError {
+  if (err instanceof SessionError) return err;
+  if (err instanceof MediaDeviceError) {
+    return new SessionError(MEDIA_KINDS[err.key] ?? 'media-unavailable', err.message, { messageKey: err.key, cause: err.cause });
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  const kind = kindFromText(message) ?? (!navigator.onLine ? 'network' : 'unknown');
+  return new SessionError(kind, message, { cause: err });
+}
+
+export interface DiagnosticEvent {
+  time: number;
+  type: string;
+  detail?: string;
+}
+
+const MAX_EVENTS = 50;
+
+/** Ring buffer of recent session events for the diagnostic bundle. */
+export class DiagnosticLog {
+  private events: DiagnosticEvent[] = [];
+
+  public record(type: string, detail?: string) {
+    this.events.push({ time: Date.now(), type, detail });
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+  }
+
+  public recent(): DiagnosticEvent[] {
+    return [...this.events];
+  }
+
+  public clear() {
+    this.events = [];
+  }
+}
+
+export interface DiagnosticContext {
+  provider: string;
+  model: string;
+  modality: string;
+  mediaFile?: string;
+}
+
+/** JSON that a user can paste into a bug report; carries no transcript or media. */
+export function buildDiagnosticBundle(error: SessionError | null, events: DiagnosticEvent[], context: DiagnosticContext): string {
+  return JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    error: error && {
+      kind: error.kind,
+      message: error.message,
+      closeCode: error.closeCode,
+      closeReason: error.closeReason,
+      cause: error.cause instanceof Error ? `${error.cause.name}: ${error.cause.message}` : error.cause !== undefined ? String(error.cause) : undefined,
+    },
+    context,
+    environment: {
+      userAgent: navigator.userAgent,
+      online: navigator.onLine,
+      secureContext: window.isSecureContext,
+      audioWorklet: typeof AudioWorkletNode !== 'undefined',
+    },
+    events: events.map(e => ({ ...e, time: new Date(e.time).toISOString() })),
+  }, null, 2);
+}
@@ -0,0 +1,96 @@
+import { SessionArchive } from '../types';
+
+const DB_NAME = 'veritas-v9';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Inserts or replaces a session by id. */
+export async function saveSession(archive: SessionArchive): Promise<void> {
+  await run('readwrite', store => store.put(archive));
+}
+
+/**
+ * Re-saves a session that is still being recorded. The recorder never sets a
+ * title, so one the user gave it in the library is carried over in the same
+ * transaction instead of being overwritten.
+ */
+export async function autosaveSession(archive: SessionArchive): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const stored = store.get(archive.id) as IDBRequest<SessionArchive | undefined>;
+    stored.onsuccess = () => {
+      const title = stored.result?.title;
+      store.put(title ? { ...archive, title } : archive);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getSession(id: string): Promise<SessionArchive | undefined> {
+  return run('readonly', store => store.get(id) as IDBRequest<SessionArchive | undefined>);
+}
+
+/** Returns all stored sessions, newest first. */
+export async function listSessions(): Promise<SessionArchive[]> {
+  const sessions = await run('readonly', store => store.getAll() as IDBRequest<SessionArchive[]>);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  const archive = await getSession(id);
+  if (!archive) return;
+  await saveSession({ ...archive, title: title.trim() || undefined });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id));
+}
+
+export const sessionTitle = (archive: SessionArchive): string =>
+  archive.title || new Date(archive.startedAt).toLocaleString('zh-CN', { hour12: false });
+
+/** Case-insensitive match against the title, id and transcript text. */
+export function matchesSessionQuery(archive: SessionArchive, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  if (sessionTitle(archive).toLowerCase().includes(q) || archive.id.toLowerCase().includes(q)) return true;
+  return archive.logs.some(log => log.message.toLowerCase().includes(q));
+}
@@ -0,0 +1,67 @@
+import { Locale } from './i18n';
+import { DEFAULT_PROMPT_SETTINGS, PromptSettings } from './promptTemplate';
+import { normalizeBands } from './scoring';
+import { DEFAULT_VIDEO_SETTINGS, VideoStreamSettings } from './videoStreamer';
+import { DeviceSelection } from './mediaDevices';
+import { CredentialSettings, DEFAULT_CREDENTIALS } from './credentials';
+import { AudioOutputSettings, DEFAULT_AUDIO_OUTPUT } from './audioOutput';
+import { DEFAULT_PARTICIPANTS, normalizeParticipants } from './participants';
+import { DEFAULT_TEXT_CHAT, TextChatSettings } from './textChat';
+import { Participant } from '../types';
+
+export interface AppSettings {
+  uiLocale: Locale;
+  prompt: PromptSettings;
+  // Send frames cropped to the tracked face instead of the whole picture
+  faceCrop: boolean;
+  video: VideoStreamSettings;
+  devices: DeviceSelection;
+  // Only the mode and proxy URL are persisted; an entered key stays in session storage
+  credentials: CredentialSettings;
+  audioOutput: AudioOutputSettings;
+  textChat: TextChatSettings;
+  // Who takes part in sessions; with more than one, speech is tagged per person
+  participants: Participant[];
+}
+
+const STORAGE_KEY = 'veritas-v9-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  uiLocale: 'zh',
+  prompt: DEFAULT_PROMPT_SETTINGS,
+  faceCrop: false,
+  video: DEFAULT_VIDEO_SETTINGS,
+  devices: { cameraId: null, microphoneId: null },
+  credentials: DEFAULT_CREDENTIALS,
+  audioOutput: DEFAULT_AUDIO_OUTPUT,
+  textChat: DEFAULT_TEXT_CHAT,
+  participants: DEFAULT_PARTICIPANTS,
+};
+
+/** Reads persisted settings, filling in defaults for anything missing or unreadable. */
+export function loadSettings(): AppSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      prompt: { ...DEFAULT_SETTINGS.prompt, ...stored?.prompt, bands: normalizeBands(stored?.prompt?.bands) },
+      video: { ...DEFAULT_SETTINGS.video, ...stored?.video },
+      devices: { ...DEFAULT_SETTINGS.devices, ...stored?.devices },
+      credentials: { ...DEFAULT_SETTINGS.credentials, ...stored?.credentials },
+      audioOutput: { ...DEFAULT_SETTINGS.audioOutput, ...stored?.audioOutput },
+      textChat: { ...DEFAULT_SETTINGS.textChat, ...stored?.textChat },
+      participants: normalizeParticipants(stored?.participants),
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to persist settings', e);
+  }
+}
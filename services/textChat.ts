@@ -0,0 +1,85 @@
+import { Content, FunctionCall, FunctionDeclaration, GoogleGenAI } from '@google/genai';
+
+/**
+ * How typed statements reach Gemini. Live sends them as text turns through
+ * the realtime session, so the reply can still be spoken; generate makes
+ * plain generateContent calls at temperature 0 with a fixed seed, so the
+ * same statements get the same verdicts from run to run.
+ */
+export type TextTransport = 'live' | 'generate';
+
+export interface TextChatSettings {
+  transport: TextTransport;
+  // Send every pasted line as its own statement instead of one block
+  splitLines: boolean;
+}
+
+export const DEFAULT_TEXT_CHAT: TextChatSettings = {
+  transport: 'live',
+  splitLines: true,
+};
+
+export const GENERATE_MODEL = 'gemini-2.5-flash';
+const GENERATE_SEED = 9;
+// A verdict call and the analysis after it; more rounds mean the model is looping on tools
+const MAX_ROUNDS = 3;
+
+/** The statements in a draft: one per non-empty line when splitting, otherwise the whole trimmed text. */
+export function splitStatements(text: string, splitLines: boolean): string[] {
+  if (!splitLines) return text.trim() ? [text.trim()] : [];
+  return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * A text-only interrogation over generateContent. Each call is stateless, so
+ * the conversation history is kept here, and function calls are answered
+ * in the same send so the model goes on to write its analysis.
+ */
+export class GenerateChat {
+  private history: Content[] = [];
+
+  constructor(
+    private ai: GoogleGenAI,
+    private model: string,
+    private systemInstruction: string,
+    private tools: FunctionDeclaration[],
+    private answerCall: (call: FunctionCall) => Record<string, unknown>,
+  ) {}
+
+  /** Returns the model's written reply; verdict calls have been answered by then. */
+  public async send(statement: string): Promise<string> {
+    const turnStart = this.history.length;
+    this.history.push({ role: 'user', parts: [{ text: statement }] });
+    try {
+      let reply = '';
+      for (let round = 0; round < MAX_ROUNDS; round++) {
+        const response = await this.ai.models.generateContent({
+          model: this.model,
+          contents: this.history,
+          config: {
+            systemInstruction: this.systemInstruction,
+            tools: [{ functionDeclarations: this.tools }],
+            temperature: 0,
+            seed: GENERATE_SEED,
+          },
+        });
+        const parts = response.candidates?.[0]?.content?.parts ?? [];
+        if (parts.length === 0) break;
+        this.history.push({ role: 'model', parts });
+        reply += parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+
+        const calls = parts.flatMap(part => part.functionCall ? [part.functionCall] : []);
+        if (calls.length === 0) break;
+        this.history.push({
+          role: 'user',
+          parts: calls.map(call => ({ functionResponse: { id: call.id, name: call.name, response: this.answerCall(call) } })),
+        });
+      }
+      return reply;
+    } catch (e) {
+      // Leave no half turn behind, so the statement can simply be sent again
+      this.history.length = turnStart;
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { Participant } from '../types';
+import { MessageKey } from './i18n';
+import { PARTICIPANT_COLORS, MAX_PARTICIPANTS } from './participants';
+
+export type TranscriptFormat = 'text' | 'srt' | 'json';
+
+/** One statement of an imported transcript, in the order it was spoken. */
+export interface TranscriptStatement {
+  // Speaker as written in the transcript; absent when the file names nobody
+  speaker?: string;
+  text: string;
+  // Seconds from the start of the recording, when the transcript has timings
+  mediaTime?: number;
+}
+
+/** A transcript that cannot be read, with the message key that says what is wrong with it. */
+export class TranscriptError extends Error {
+  constructor(public readonly key: MessageKey, public readonly params?: Record<string, string | number>) {
+    super(key);
+    this.name = 'TranscriptError';
+  }
+}
+
+// "Name: text" with a short name that is not itself a timestamp
+const SPEAKER_LINE = /^([^:：\d][^:：]{0,31})[:：]\s*(.+)$/;
+// Optional "[01:23]" or "(1:02:03)" in front of a text line
+const LINE_TIME = /^[[(]((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?)[\])]\s*/;
+const SRT_TIMING = /^(\d{1,2}:\d{2}:\d{2}[,.]\d{1,3})\s*-->\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}/;
+// Speaker labels that are taken to be the person asking the questions
+const INTERVIEWER_NAMES = /^(q|question|interviewer|interrogator|officer|detective|审讯员?|问|提问者?|警官)$/i;
+
+/** "01:02:03,450", "02:03" or "2:03.5" as seconds. */
+function parseClock(value: string): number {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function splitSpeaker(line: string): { speaker?: string; text: string } {
+  const match = line.match(SPEAKER_LINE);
+  if (!match || match[1].trim().split(/\s+/).length > 4) return { text: line };
+  return { speaker: match[1].trim(), text: match[2].trim() };
+}
+
+/**
+ * Plain text: a line that starts with "Name:" opens a new statement, other
+ * lines continue the one before, and blank lines always end it.
+ */
+function parseText(content: string): TranscriptStatement[] {
+  const statements: TranscriptStatement[] = [];
+  let current: TranscriptStatement | null = null;
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line) {
+      current = null;
+      continue;
+    }
+    const time = line.match(LINE_TIME);
+    if (time) line = line.slice(time[0].length);
+    const { speaker, text } = splitSpeaker(line);
+    if (current && !speaker && !time) {
+      current.text += ` ${text}`;
+      continue;
+    }
+    current = { speaker, text, mediaTime: time ? parseClock(time[1]) : undefined };
+    statements.push(current);
+  }
+  return statements;
+}
+
+/** SubRip: every cue is a statement timed at its start; "Name:" in the cue text names the speaker. */
+function parseSrt(content: string): TranscriptStatement[] {
+  const statements: TranscriptStatement[] = [];
+  for (const block of content.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => SRT_TIMING.test(line));
+    if (timingIndex === -1) continue;
+    const body = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (!body) continue;
+    const { speaker, text } = splitSpeaker(body.replace(/^-\s*/, ''));
+    statements.push({ speaker, text, mediaTime: parseClock(lines[timingIndex].match(SRT_TIMING)![1]) });
+  }
+  return statements;
+}
+
+const toStatement = (item: unknown, index: number): TranscriptStatement => {
+  if (typeof item === 'string' && item.trim()) return splitSpeaker(item.trim());
+  if (item && typeof item === 'object') {
+    const { speaker, name, text, content, statement, start, time } = item as Record<string, unknown>;
+    const body = [text, content, statement].find((v): v is string => typeof v === 'string' && !!v.trim());
+    const who = [speaker, name].find((v): v is string => typeof v === 'string' && !!v.trim());
+    const at = [start, time].find(v => typeof v === 'number' || (typeof v === 'string' && /^[\d:.,]+$/.test(v)));
+    if (body) {
+      return {
+        speaker: who?.trim(),
+        text: body.trim(),
+        mediaTime: typeof at === 'number' ? at : typeof at === 'string' ? parseClock(at) : undefined,
+      };
+    }
+  }
+  throw new TranscriptError('transcriptStatementNoText', { index: index + 1 });
+};
+
+/** JSON: an array of strings or of { speaker, text, start } objects, bare or under "statements"/"segments". */
+function parseJson(content: string): TranscriptStatement[] {
+  const data = JSON.parse(content);
+  const list = Array.isArray(data) ? data : data?.statements ?? data?.segments ?? data?.utterances;
+  if (!Array.isArray(list)) throw new TranscriptError('transcriptNotArray');
+  return list.map(toStatement);
+}
+
+/** Guesses the format from the file extension, falling back to the content. */
+export function detectTranscriptFormat(content: string, fileName = ''): TranscriptFormat {
+  const extension = fileName.toLowerCase().match(/\.(\w+)$/)?.[1];
+  if (extension === 'srt') return 'srt';
+  if (extension === 'json') return 'json';
+  const trimmed = content.trim();
+  if (/^[[{]/.test(trimmed)) return 'json';
+  if (trimmed.split(/\r?\n/, 4).some(line => SRT_TIMING.test(line.trim()))) return 'srt';
+  return 'text';
+}
+
+/** Parses a transcript into statements. Throws a TranscriptError on empty input or malformed JSON entries. */
+export function parseTranscript(content: string, format: TranscriptFormat): TranscriptStatement[] {
+  const statements = format === 'srt' ? parseSrt(content) : format === 'json' ? parseJson(content) : parseText(content);
+  if (statements.length === 0) throw new TranscriptError('transcriptEmpty');
+  return statements;
+}
+
+/**
+ * One participant per distinct speaker name, in order of first appearance.
+ * Names like "Q" or "Interviewer" are marked as interviewers; a transcript
+ * with a single speaker (or none) is a single-subject session.
+ */
+export function participantsFromTranscript(statements: TranscriptStatement[]): Participant[] {
+  const names = [...new Set(statements.flatMap(s => s.speaker ? [s.speaker] : []))].slice(0, MAX_PARTICIPANTS);
+  if (names.length < 2) return [];
+  const participants: Participant[] = names.map((name, i) => ({
+    id: `speaker-${i + 1}`,
+    name,
+    role: INTERVIEWER_NAMES.test(name) ? 'interviewer' : 'subject',
+    color: PARTICIPANT_COLORS[i % PARTICIPANT_COLORS.length],
+  }));
+  if (!participants.some(p => p.role === 'subject')) participants[participants.length - 1].role = 'subject';
+  return participants;
+}
+
+/** The participant a statement belongs to; unnamed statements are untagged and scored like a subject's. */
+export const statementSpeakerId = (statement: TranscriptStatement, participants: Participant[]): string | undefined =>
+  participants.find(p => p.name === statement.speaker)?.id;
@@ -0,0 +1,195 @@
+import { LogEntry, TimelineItem, Turn, VerdictRecord, VocalFeatures } from '../types';
+
+// A structured verdict that arrives just after the subject started speaking again still belongs to the previous reply
+const VERDICT_GRACE = 3000;
+
+export interface TurnContext {
+  now: number;
+  questionId?: string;
+  mediaTime?: number;
+  speakerId?: string;
+}
+
+const clockTime = (time: number) => new Date(time).toLocaleTimeString('zh-CN', { hour12: false });
+
+let sequence = 0;
+
+const newTurn = (ctx: TurnContext, patch: Partial<Turn>): Turn => ({
+  id: `turn-${ctx.now}-${++sequence}`,
+  startedAt: ctx.now,
+  timestamp: clockTime(ctx.now),
+  subject: '',
+  analysis: '',
+  complete: false,
+  type: 'neutral',
+  questionId: ctx.questionId,
+  mediaTime: ctx.mediaTime,
+  speakerId: ctx.speakerId,
+  ...patch,
+});
+
+/**
+ * Groups the streamed transcript into turns. Every change replaces the
+ * touched turn and the item list, so the snapshot handed to `onChange` can
+ * go straight into React state while callbacks keep working on the latest
+ * version without waiting for a render.
+ */
+export class TurnTimeline {
+  private items: TimelineItem[] = [];
+
+  constructor(private onChange: (items: TimelineItem[]) => void) {}
+
+  public get snapshot(): TimelineItem[] {
+    return this.items;
+  }
+
+  public reset(items: TimelineItem[] = []) {
+    this.items = items;
+    this.onChange(this.items);
+  }
+
+  public notice(entry: LogEntry) {
+    this.items = [...this.items, { kind: 'notice', entry }];
+    this.onChange(this.items);
+  }
+
+  /** Subject speech extends the open turn until the model has answered or someone else is tagged, then starts the next one. */
+  public subject(text: string, ctx: TurnContext): Turn {
+    const last = this.lastTurn();
+    if (last && !last.complete && !last.analysis && !last.verdictSource && last.speakerId === ctx.speakerId) {
+      return this.update(last.id, { subject: last.subject + text });
+    }
+    return this.add(newTurn(ctx, { subject: text }));
+  }
+
+  /** Model output belongs to the open turn; after turnComplete it starts an unprompted one. */
+  public analysis(text: string, ctx: TurnContext): Turn {
+    const last = this.lastTurn();
+    if (last && !last.complete) return this.update(last.id, { analysis: last.analysis + text });
+    return this.add(newTurn(ctx, { analysis: text }));
+  }
+
+  /** Closes the open turn; returns it, or null when none was open. */
+  public complete(now: number): Turn | null {
+    const last = this.lastTurn();
+    if (!last || last.complete) return null;
+    return this.update(last.id, { complete: true, endedAt: now });
+  }
+
+  /**
+   * The turn a structured verdict judges: normally the latest one, but if the
+   * subject has just started a new turn the model cannot have judged it yet,
+   * so a recently finished turn without a verdict takes it instead.
+   */
+  public verdictTarget(ctx: TurnContext): Turn {
+    const turns = this.turns();
+    const last = turns[turns.length - 1];
+    const previous = turns[turns.length - 2];
+    if (last && !last.analysis && !last.verdictSource && previous && !previous.verdictSource
+        && previous.endedAt !== undefined && ctx.now - previous.endedAt < VERDICT_GRACE) {
+      return previous;
+    }
+    return last ?? this.add(newTurn(ctx, {}));
+  }
+
+  /** Attaches prosody to the latest turn if its subject text is in and has none yet. */
+  public attachVocal(features: VocalFeatures): boolean {
+    const last = this.lastTurn();
+    if (!last || !last.subject || last.vocal) return false;
+    this.update(last.id, { vocal: features });
+    return true;
+  }
+
+  public update(id: string, patch: Partial<Turn>): Turn {
+    let updated: Turn | undefined;
+    this.items = this.items.map(item => {
+      if (item.kind !== 'turn' || item.turn.id !== id) return item;
+      updated = { ...item.turn, ...patch };
+      return { kind: 'turn', turn: updated };
+    });
+    this.onChange(this.items);
+    return updated!;
+  }
+
+  private add(turn: Turn): Turn {
+    this.items = [...this.items, { kind: 'turn', turn }];
+    this.onChange(this.items);
+    return turn;
+  }
+
+  private turns(): Turn[] {
+    return this.items.flatMap(item => item.kind === 'turn' ? [item.turn] : []);
+  }
+
+  private lastTurn(): Turn | undefined {
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const item = this.items[i];
+      if (item.kind === 'turn') return item.turn;
+    }
+    return undefined;
+  }
+}
+
+/** One entry per speaker per turn, in the shape exports and older archives use. */
+export function flattenTimeline(items: TimelineItem[]): LogEntry[] {
+  return items.flatMap((item): LogEntry[] => {
+    if (item.kind === 'notice') return [item.entry];
+    const { turn } = item;
+    const entries: LogEntry[] = [];
+    const shared = { timestamp: turn.timestamp, questionId: turn.questionId, mediaTime: turn.mediaTime, speakerId: turn.speakerId };
+    if (turn.subject) entries.push({ id: `${turn.id}-subject`, message: turn.subject, type: 'neutral', vocal: turn.vocal, ...shared });
+    const verdict = turn.verdictSource === 'tool'
+      ? `[${turn.rate}%${turn.confidence !== undefined ? ` · ${turn.confidence}%` : ''}] ${turn.reasoning ?? ''}${turn.cues?.length ? ` (${turn.cues.join(', ')})` : ''}`.trim()
+      : '';
+    const message = [turn.analysis.trim(), verdict].filter(Boolean).join(' ');
+    if (message) {
+      entries.push({ id: turn.id, message, type: turn.rate !== undefined ? turn.type : 'system', band: turn.band, ...shared });
+    }
+    return entries;
+  });
+}
+
+/**
+ * Rebuilds turns from a flat log for archives saved before turns existed:
+ * each subject entry opens a turn and the entries after it are its analysis.
+ */
+export function timelineFromLogs(logs: LogEntry[], verdicts: VerdictRecord[]): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  let current: Turn | null = null;
+  logs.forEach(log => {
+    const verdict = verdicts.find(v => v.logId === log.id);
+    if (log.id.startsWith('sys-')) {
+      items.push({ kind: 'notice', entry: log });
+      current = null;
+      return;
+    }
+    if (log.type === 'neutral' || !current) {
+      current = {
+        id: log.id,
+        startedAt: 0,
+        timestamp: log.timestamp,
+        subject: log.type === 'neutral' ? log.message : '',
+        analysis: log.type === 'neutral' ? '' : log.message,
+        complete: true,
+        type: log.type === 'neutral' ? 'neutral' : log.type,
+        band: log.type === 'neutral' ? undefined : log.band,
+        questionId: log.questionId,
+        vocal: log.vocal,
+        mediaTime: log.mediaTime,
+        speakerId: log.speakerId,
+      };
+      items.push({ kind: 'turn', turn: current });
+    } else {
+      current.analysis = [current.analysis, log.message].filter(Boolean).join('\n');
+      if (log.band) {
+        current.type = log.type;
+        current.band = log.band;
+      }
+    }
+    // The verdict's reasoning is already part of the logged message
+    if (verdict) {
+      Object.assign(current, { rate: verdict.rate, rawRate: verdict.rawRate, verdictSource: verdict.source, confidence: verdict.confidence, cues: verdict.cues });
+    }
+  });
+  return items;
+}
@@ -0,0 +1,40 @@
+import { Locale } from './i18n';
+
+const PATTERNS: Record<Locale, RegExp[]> = {
+  zh: [
+    /\[\s*欺骗率\s*[:：]\s*(\d+)\s*%\s*\]/,
+    /欺骗率\s*[:：]?\s*(\d+)\s*%/,
+    /(\d+)\s*%\s*欺骗/,
+  ],
+  en: [
+    /\[\s*deception(?:\s*rate)?\s*[:：]\s*(\d+)\s*%\s*\]/i,
+    /deception(?:\s*rate)?\s*[:：]?\s*(\d+)\s*%/i,
+    /(\d+)\s*%\s*(?:deceptive|deception|likely lying)/i,
+  ],
+};
+
+// Every form the parser accepts is stripped, so a parsed rate never stays in the reasoning
+const TAGS: RegExp[] = Object.values(PATTERNS).flat().map(pattern => new RegExp(pattern.source, `${pattern.flags}g`));
+
+/**
+ * Extracts the deception rate from a spoken verdict. The configured output
+ * language is tried first, then the other language in case the model switched.
+ */
+export function parseDeceptionRate(text: string, language: Locale = 'zh'): number | null {
+  const order = [language, ...(Object.keys(PATTERNS) as Locale[]).filter(l => l !== language)];
+  for (const locale of order) {
+    for (const pattern of PATTERNS[locale]) {
+      const match = text.match(pattern);
+      if (match) {
+        const value = parseInt(match[1], 10);
+        if (value >= 0 && value <= 100) return value;
+      }
+    }
+  }
+  return null;
+}
+
+/** Removes verdict tags so only the model's reasoning remains. */
+export function stripDeceptionTag(text: string): string {
+  return TAGS.reduce((acc, tag) => acc.replace(tag, ''), text).trim();
+}
@@ -0,0 +1,236 @@
+import { FrameRegion } from './rppg';
+import { padRegion } from './faceTracker';
+
+export type VideoResolution = 'low' | 'medium' | 'high';
+export type VideoPresetId = 'saver' | 'balanced' | 'detail';
+
+export interface VideoStreamSettings {
+  // Frames per second in fixed mode; the steady rate in motion mode
+  fps: number;
+  resolution: VideoResolution;
+  // JPEG quality, 0-1
+  quality: number;
+  // Lower quality and resolution while the connection is backed up
+  adaptive: boolean;
+  // Skip near-identical frames and send a burst when the subject moves
+  motion: boolean;
+}
+
+export interface VideoStreamStats {
+  framesSent: number;
+  framesDropped: number;
+  // Frames left out in motion mode because nothing changed
+  framesSkipped: number;
+  bytesPerSecond: number;
+  // Quality currently in use, lower than configured while adaptive mode backs off
+  quality: number;
+}
+
+// Longest side of the outgoing frame in pixels
+export const VIDEO_RESOLUTIONS: Record<VideoResolution, number> = { low: 320, medium: 640, high: 960 };
+export const VIDEO_FPS_OPTIONS = [0.5, 1, 2, 5];
+export const VIDEO_QUALITY_OPTIONS = [0.4, 0.6, 0.8, 0.9];
+
+export const VIDEO_PRESETS: Record<VideoPresetId, Pick<VideoStreamSettings, 'fps' | 'resolution' | 'quality'>> = {
+  saver: { fps: 0.5, resolution: 'low', quality: 0.4 },
+  balanced: { fps: 1, resolution: 'medium', quality: 0.6 },
+  detail: { fps: 2, resolution: 'high', quality: 0.8 },
+};
+
+export const DEFAULT_VIDEO_SETTINGS: VideoStreamSettings = { ...VIDEO_PRESETS.balanced, adaptive: false, motion: false };
+
+/** Preset whose fps, resolution and quality all match, or null for a custom combination. */
+export const matchVideoPreset = (settings: VideoStreamSettings): VideoPresetId | null =>
+  (Object.keys(VIDEO_PRESETS) as VideoPresetId[]).find(id => {
+    const preset = VIDEO_PRESETS[id];
+    return preset.fps === settings.fps && preset.resolution === settings.resolution && preset.quality === settings.quality;
+  }) ?? null;
+
+// Share of the face box added on each side when cropping frames for the model
+const FACE_CROP_MARGIN = 0.25;
+// Bytes waiting in the socket before adaptive mode backs off, and below which it recovers
+const BACKLOG_HIGH = 256 * 1024;
+const BACKLOG_LOW = 32 * 1024;
+const MIN_QUALITY = 0.3;
+const MIN_SCALE = 0.5;
+// Motion mode samples at least this often to notice movement between sends
+const MOTION_CHECK_FPS = 4;
+const MOTION_THUMB_WIDTH = 32;
+const MOTION_THUMB_HEIGHT = 24;
+// Mean absolute luma difference (0-255) against the last sent frame
+const MOTION_THRESHOLD = 12;
+const STILL_THRESHOLD = 3;
+const BURST_FRAMES = 4;
+// A still scene is still refreshed this often so the model's view never goes stale
+const STILL_KEEPALIVE = 5000;
+const STATS_WINDOW = 5000;
+const STATS_INTERVAL = 1000;
+
+/** Mean absolute difference of two equally sized luma thumbnails, 0-255. */
+const meanDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff += Math.abs(a[i] - b[i]);
+  return diff / a.length;
+};
+
+/**
+ * Grabs JPEG frames from the video and hands them to `send`. Frame rate,
+ * size and quality come from VideoStreamSettings; `backlog` reports bytes
+ * still queued on the connection so adaptive mode can back off.
+ */
+export class VideoStreamer {
+  private settings: VideoStreamSettings = DEFAULT_VIDEO_SETTINGS;
+  private cropRegion: FrameRegion | null = null;
+  private timer: number | null = null;
+  private statsTimer: number | null = null;
+  private thumbCanvas = document.createElement('canvas');
+  private thumbCtx = this.thumbCanvas.getContext('2d', { willReadFrequently: true });
+  private lastThumb: Uint8ClampedArray | null = null;
+  private lastSentAt = 0;
+  private burstRemaining = 0;
+  private quality = DEFAULT_VIDEO_SETTINGS.quality;
+  private scale = 1;
+  private sent: { time: number; bytes: number }[] = [];
+  private stats: VideoStreamStats = { framesSent: 0, framesDropped: 0, framesSkipped: 0, bytesPerSecond: 0, quality: 0 };
+
+  constructor(
+    private send: (base64Jpeg: string) => boolean,
+    private backlog: () => number,
+    private onStats: (stats: VideoStreamStats) => void,
+  ) {
+    this.thumbCanvas.width = MOTION_THUMB_WIDTH;
+    this.thumbCanvas.height = MOTION_THUMB_HEIGHT;
+  }
+
+  /** Takes effect from the next frame. */
+  public setSettings(settings: VideoStreamSettings) {
+    this.settings = settings;
+    this.quality = settings.quality;
+    this.scale = 1;
+  }
+
+  /** Face box to crop to, spending the frame's pixel budget on the face; null sends the whole frame. */
+  public setCropRegion(region: FrameRegion | null) {
+    this.cropRegion = region;
+  }
+
+  public start(video: HTMLVideoElement, canvas: HTMLCanvasElement) {
+    this.stop();
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    this.quality = this.settings.quality;
+    this.scale = 1;
+    this.stats = { framesSent: 0, framesDropped: 0, framesSkipped: 0, bytesPerSecond: 0, quality: this.quality };
+
+    const schedule = () => {
+      const { fps, motion } = this.settings;
+      const rate = motion ? Math.max(fps, MOTION_CHECK_FPS) : fps;
+      this.timer = window.setTimeout(() => {
+        this.tick(video, canvas, ctx);
+        if (this.timer !== null) schedule();
+      }, 1000 / rate);
+    };
+    schedule();
+    this.statsTimer = window.setInterval(() => this.reportStats(), STATS_INTERVAL);
+  }
+
+  public stop() {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.statsTimer) clearInterval(this.statsTimer);
+    this.timer = null;
+    this.statsTimer = null;
+    this.lastThumb = null;
+    this.lastSentAt = 0;
+    this.burstRemaining = 0;
+    this.sent = [];
+  }
+
+  private tick(video: HTMLVideoElement, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
+    const { videoWidth: w, videoHeight: h } = video;
+    if (!w || !h) return;
+    const now = Date.now();
+
+    let thumb: Uint8ClampedArray | null = null;
+    if (this.settings.motion) {
+      thumb = this.thumbnail(video);
+      const change = thumb && this.lastThumb ? meanDifference(thumb, this.lastThumb) : MOTION_THRESHOLD;
+      if (change >= MOTION_THRESHOLD) this.burstRemaining = BURST_FRAMES;
+      if (this.burstRemaining > 0) {
+        this.burstRemaining--;
+      } else if (change < STILL_THRESHOLD && now - this.lastSentAt < STILL_KEEPALIVE) {
+        this.stats.framesSkipped++;
+        return;
+      } else if (now - this.lastSentAt < 1000 / this.settings.fps) {
+        return;
+      }
+    }
+
+    if (this.settings.adaptive && !this.adapt()) {
+      this.stats.framesDropped++;
+      return;
+    }
+
+    this.drawFrame(video, canvas, ctx);
+    const base64 = canvas.toDataURL('image/jpeg', this.quality).split(',')[1];
+    if (!this.send(base64)) {
+      this.stats.framesDropped++;
+      return;
+    }
+    // Motion is measured against the last frame that went out, so slow drift still adds up to a send
+    if (thumb) this.lastThumb = thumb;
+    this.lastSentAt = now;
+    this.stats.framesSent++;
+    this.sent.push({ time: now, bytes: Math.floor((base64.length * 3) / 4) });
+  }
+
+  /** Backs quality and size off while the socket is backed up; returns false to drop this frame. */
+  private adapt(): boolean {
+    const queued = this.backlog();
+    if (queued > BACKLOG_HIGH) {
+      this.quality = Math.max(MIN_QUALITY, this.quality - 0.1);
+      this.scale = Math.max(MIN_SCALE, this.scale * 0.75);
+      return false;
+    }
+    if (queued < BACKLOG_LOW) {
+      this.quality = Math.min(this.settings.quality, this.quality + 0.05);
+      this.scale = Math.min(1, this.scale * 1.1);
+    }
+    return true;
+  }
+
+  private drawFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
+    const { videoWidth: w, videoHeight: h } = video;
+    const longSide = VIDEO_RESOLUTIONS[this.settings.resolution] * this.scale;
+    const fit = Math.min(1, longSide / Math.max(w, h));
+    // Pixel budget of the full frame at the configured resolution
+    const budget = w * fit * h * fit;
+    const crop = this.cropRegion ? padRegion(this.cropRegion, FACE_CROP_MARGIN) : { x: 0, y: 0, width: 1, height: 1 };
+    const sw = crop.width * w;
+    const sh = crop.height * h;
+    // A crop gets the same budget, up to native resolution
+    const scale = Math.min(1, Math.sqrt(budget / (sw * sh)));
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    ctx.drawImage(video, crop.x * w, crop.y * h, sw, sh, 0, 0, canvas.width, canvas.height);
+  }
+
+  /** Small grayscale copy of the current frame for change detection. */
+  private thumbnail(video: HTMLVideoElement): Uint8ClampedArray | null {
+    if (!this.thumbCtx) return null;
+    this.thumbCtx.drawImage(video, 0, 0, MOTION_THUMB_WIDTH, MOTION_THUMB_HEIGHT);
+    const pixels = this.thumbCtx.getImageData(0, 0, MOTION_THUMB_WIDTH, MOTION_THUMB_HEIGHT).data;
+    const luma = new Uint8ClampedArray(pixels.length / 4);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+    }
+    return luma;
+  }
+
+  private reportStats() {
+    const now = Date.now();
+    this.sent = this.sent.filter(s => now - s.time < STATS_WINDOW);
+    const bytes = this.sent.reduce((sum, s) => sum + s.bytes, 0);
+    this.stats = { ...this.stats, bytesPerSecond: Math.round(bytes / (STATS_WINDOW / 1000)), quality: this.quality };
+    this.onStats(this.stats);
+  }
+}
@@ -3,12 +3,92 @@ export interface LogEntry {
   timestamp: string;
   message: string;
   type: 'neutral' | 'truth' | 'deception' | 'system';
+  // Interview-plan question that was active when the entry was created
+  questionId?: string;
+  // Scoring band the entry's verdict fell into
+  band?: string;
+  // Prosody of the subject's utterance, for subject entries
+  vocal?: VocalFeatures;
+  // Position in the analyzed recording, seconds; only for file sessions
+  mediaTime?: number;
+  // Participant who was speaking; absent in single-subject sessions
+  speakerId?: string;
+}
+
+export type ParticipantRole = 'interviewer' | 'subject';
+
+/** Someone in front of the camera or microphone. Only subjects are scored. */
+export interface Participant {
+  id: string;
+  // Empty until named; shown as the role and a letter
+  name: string;
+  role: ParticipantRole;
+  color: string;
+}
+
+/**
+ * One exchange: what the subject said and the model's assessment of it.
+ * Streamed chunks are appended to the open turn; the model's turnComplete
+ * closes it, and the next subject chunk opens a new one.
+ */
+export interface Turn {
+  id: string;
+  startedAt: number;
+  // Set when the model finished its reply
+  endedAt?: number;
+  timestamp: string;
+  // Subject transcript; empty when the model spoke unprompted (e.g. video-only assessments)
+  subject: string;
+  // Model's streamed analysis, as received
+  analysis: string;
+  complete: boolean;
+  // Verdict on this turn, normalized against the baseline when one exists
+  rate?: number;
+  rawRate?: number;
+  // Log type of the verdict (see classifyRate); neutral until judged
+  type: LogEntry['type'];
+  band?: string;
+  verdictSource?: 'tool' | 'transcript';
+  confidence?: number;
+  cues?: string[];
+  // Reasoning of a structured verdict; transcript verdicts reason in the analysis itself
+  reasoning?: string;
+  // The rate was a baseline-calibration sample rather than a session verdict
+  calibration?: boolean;
+  questionId?: string;
+  vocal?: VocalFeatures;
+  mediaTime?: number;
+  // Who was speaking, as tagged by the operator; turns by the interviewer carry no rate
+  speakerId?: string;
+}
+
+/** The transcript panel's content: turns interleaved with system notices, in arrival order. */
+export type TimelineItem = { kind: 'turn'; turn: Turn } | { kind: 'notice'; entry: LogEntry };
+
+/** Prosody of one utterance, measured locally from the microphone stream. */
+export interface VocalFeatures {
+  durationMs: number;
+  // Mean and range of the fundamental frequency, Hz
+  f0Mean: number;
+  f0Range: number;
+  // Cycle-to-cycle period / amplitude perturbation, percent
+  jitter: number;
+  shimmer: number;
+  // Estimated syllables per second of speaking time
+  speechRate: number;
+  pauseCount: number;
+  meanPauseMs: number;
+  longestPauseMs: number;
+  // Share of speech frames that were voiced, 0-1
+  voicedRatio: number;
 }
 
 export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
+  CALIBRATING = 'CALIBRATING',
   ACTIVE = 'ACTIVE',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
@@ -16,4 +96,112 @@ export interface BiometricData {
   heartRate: number;
   stressLevel: number;
   pupilDilation: number;
+  // True when heartRate is the camera (rPPG) measurement, false when it is simulated
+  heartRateMeasured: boolean;
+  // rPPG signal quality, 0-1
+  signalQuality: number;
+}
+
+export interface DeceptionSample {
+  time: number;
+  value: number;
+  // Latest rate of each scored participant, keyed by participant id; only with several subjects
+  rates?: Record<string, number>;
+}
+
+export interface Verdict {
+  deceptionRate: number;
+  confidence: number;
+  cues: string[];
+  reasoning: string;
+}
+
+export interface VerdictRecord {
+  logId: string;
+  time: number;
+  timestamp: string;
+  rate: number;
+  reasoning: string;
+  // 'tool' verdicts come from the report_verdict function call, 'transcript' ones from regex over the spoken output
+  source: 'tool' | 'transcript';
+  // Model score before baseline normalization, when a baseline was applied
+  rawRate?: number;
+  confidence?: number;
+  cues?: string[];
+  questionId?: string;
+  // Position in the analyzed recording, seconds; only for file sessions
+  mediaTime?: number;
+  speakerId?: string;
+}
+
+export interface InterviewQuestion {
+  id: string;
+  text: string;
+}
+
+export interface InterviewPlan {
+  title: string;
+  questions: InterviewQuestion[];
+}
+
+export interface QuestionSegment {
+  questionId: string;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export interface ScoringBand {
+  id: string;
+  // Lowest deception rate (inclusive) that falls into this band; the first band starts at 0
+  threshold: number;
+  color: string;
+  label: Record<'zh' | 'en', string>;
+  // What the model is told to look for in this band
+  criteria: Record<'zh' | 'en', string>;
+}
+
+export interface SubjectBaseline {
+  truthRate: number;
+  lieRate: number;
+  truthVolume: number;
+  lieVolume: number;
+  calibratedAt: number;
+}
+
+export interface SessionStats {
+  userMessages: number;
+  aiMessages: number;
+  avgProbability: number;
+  maxProbability: number;
+  durationMs: number;
+}
+
+/** Which of the subject's streams are captured and sent for analysis; text means typed statements with no media at all. */
+export type AnalysisModality = 'audio-video' | 'audio' | 'video' | 'text';
+
+export interface SessionArchive {
+  version: 1;
+  id: string;
+  title?: string;
+  startedAt: number;
+  endedAt: number;
+  model: string;
+  // Flat view of the timeline, kept for exports and older readers
+  logs: LogEntry[];
+  // Turn-level transcript; archives recorded before turns existed only have logs
+  timeline?: TimelineItem[];
+  history: DeceptionSample[];
+  verdicts: VerdictRecord[];
+  baseline?: SubjectBaseline;
+  plan?: InterviewPlan;
+  segments?: QuestionSegment[];
+  // Bands in effect when the session was recorded; older archives use the defaults
+  bands?: ScoringBand[];
+  // Streams that were analyzed; older archives are audio-video
+  modality?: AnalysisModality;
+  // Name of the recording that was analyzed instead of a live camera
+  mediaFile?: string;
+  // People in the session when there was more than one; speaker ids in logs and verdicts refer to these
+  participants?: Participant[];
+  stats: SessionStats;
 }
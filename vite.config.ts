@@ -4,18 +4,18 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
-    const apiKey = env.GEMINI_API_KEY || env.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY || process.env.VITE_GEMINI_API_KEY;
-    console.log('Building with API key:', apiKey ? 'SET' : 'NOT SET');
+    // The API key is never inlined into the bundle; the browser either gets one typed in at runtime
+    // or fetches ephemeral tokens from the local proxy (npm run proxy), which /api is forwarded to
+    const proxyPort = env.TOKEN_PROXY_PORT || '8787';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${proxyPort}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(apiKey),
-        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),